@@ -12,6 +12,16 @@ export const VISUAL_VERSION = "2.0.1";
 export const WORK_ITEM_TYPES = ["Epic", "Release", "Milestone", "Feature"] as const;
 export type WorkItemType = typeof WORK_ITEM_TYPES[number];
 
+// Render shapes a work item type can be drawn with on the timeline
+export const TYPE_SHAPES = ["bar", "diamond"] as const;
+export type TypeShape = typeof TYPE_SHAPES[number];
+
+// Resource keys for type shape labels (stringResources; matches capabilities.json)
+export const TYPE_SHAPE_LABEL_KEYS: Record<TypeShape, string> = {
+    bar: "Visual_Shape_Bar",
+    diamond: "Visual_Shape_Diamond",
+};
+
 // Layout constants
 export const LAYOUT = {
     /** Width of the left panel containing work item names */
@@ -26,11 +36,23 @@ export const LAYOUT = {
     /** Minimum width before showing bar label text */
     MIN_BAR_WIDTH_FOR_LABEL: 50,
 
+    /** Minimum width before showing the percent complete label on a bar */
+    MIN_BAR_WIDTH_FOR_PROGRESS_LABEL: 90,
+
+    /** Minimum width before showing the date range on a swimlane's summary bar */
+    MIN_BAR_WIDTH_FOR_GROUP_SPAN_LABEL: 160,
+
     /** Base padding for rows */
     ROW_PADDING: 10,
 
     /** Margin around milestone labels */
     MILESTONE_LABEL_MARGIN: 6,
+
+    /** Size of the schedule issue badge next to bars and milestones */
+    WARNING_BADGE_SIZE: 14,
+
+    /** Height of the baseline ghost bar drawn under a bar */
+    BASELINE_BAR_HEIGHT: 4,
 } as const;
 
 // Logo size presets (in pixels)
@@ -92,6 +114,15 @@ export const BAR_HEIGHTS: Record<string, Record<string, number>> = {
 export const TIME_SCALES = ["daily", "weekly", "monthly", "annual", "multiYear"] as const;
 export type TimeScale = typeof TIME_SCALES[number];
 
+// Resource keys for the toolbar time scale switcher labels
+export const TIME_SCALE_LABEL_KEYS: Record<TimeScale, string> = {
+    daily: "Visual_TimeScale_Daily",
+    weekly: "Visual_TimeScale_Weekly",
+    monthly: "Visual_TimeScale_Monthly",
+    annual: "Visual_TimeScale_Annual",
+    multiYear: "Visual_TimeScale_MultiYear",
+};
+
 // Base day widths for each time scale (pixels per day at zoom 1x)
 export const DAY_WIDTHS: Record<TimeScale, number> = {
     daily: 24,
@@ -105,14 +136,59 @@ export const DAY_WIDTHS: Record<TimeScale, number> = {
 export const ZOOM_LEVELS = [0.5, 1, 2, 4] as const;
 export type ZoomLevel = typeof ZOOM_LEVELS[number];
 
+// Zoom level used when zooming past either end of ZOOM_LEVELS rolls over
+// into the neighbouring time scale (e.g. monthly 4x → weekly 1x)
+export const ZOOM_ROLLOVER_LEVEL: ZoomLevel = 1;
+
 // Row density options
 export const ROW_DENSITIES = ["compact", "normal", "comfortable"] as const;
 export type RowDensity = typeof ROW_DENSITIES[number];
 
+// Resource keys for row density labels (matches capabilities.json)
+export const ROW_DENSITY_LABEL_KEYS: Record<RowDensity, string> = {
+    compact: "Visual_RowDensity_Compact",
+    normal: "Visual_RowDensity_Normal",
+    comfortable: "Visual_RowDensity_Comfortable",
+};
+
 // Milestone label position options
 export const MILESTONE_LABEL_POSITIONS = ["left", "right", "none"] as const;
 export type MilestoneLabelPosition = typeof MILESTONE_LABEL_POSITIONS[number];
 
+// Resource keys for milestone label position labels (matches capabilities.json)
+export const MILESTONE_LABEL_POSITION_LABEL_KEYS: Record<MilestoneLabelPosition, string> = {
+    left: "Visual_MilestoneLabel_Left",
+    right: "Visual_MilestoneLabel_Right",
+    none: "Visual_MilestoneLabel_None",
+};
+
+// Group by options in toolbar order (value matches capabilities.json, labelKey is a resource key)
+export const GROUP_BY_OPTIONS = [
+    { value: "epic", labelKey: "Visual_GroupBy_Epic" },
+    { value: "areaPath", labelKey: "Visual_GroupBy_AreaPath" },
+    { value: "iterationPath", labelKey: "Visual_GroupBy_IterationPath" },
+    { value: "assignedTo", labelKey: "Visual_GroupBy_AssignedTo" },
+    { value: "state", labelKey: "Visual_GroupBy_State" },
+    { value: "priority", labelKey: "Visual_GroupBy_Priority" },
+    { value: "tags", labelKey: "Visual_GroupBy_Tags" },
+] as const;
+export type GroupByOption = typeof GROUP_BY_OPTIONS[number]["value"];
+
+// Secondary / tertiary grouping value for no further swimlane level
+export const GROUP_BY_NONE = "none";
+
+// Sibling sort keys (value matches capabilities.json, labelKey is a resource key)
+export const SORT_BY_OPTIONS = [
+    { value: "type", labelKey: "Visual_SortBy_Type" },
+    { value: "startDate", labelKey: "Visual_SortBy_StartDate" },
+    { value: "targetDate", labelKey: "Visual_SortBy_TargetDate" },
+    { value: "float", labelKey: "Visual_SortBy_Float" },
+] as const;
+export type SortByOption = typeof SORT_BY_OPTIONS[number]["value"];
+
+// Category rows kept by the data reduction ("top" count in capabilities.json)
+export const DATA_ROW_LIMIT = 10000;
+
 // Timeline padding (days before/after data range)
 export const TIMELINE_PADDING = {
     /** Days of padding before the first work item */
@@ -132,6 +208,13 @@ export const OCCLUSION = {
      */
     BUFFER_PX: 200,
 
+    /**
+     * Buffer zone (in pixels) left and right of the viewport for
+     * time-axis culling of headers, grid lines, bars and dependency paths.
+     * Wider than BUFFER_PX so panning re-renders less often.
+     */
+    HORIZONTAL_BUFFER_PX: 600,
+
     /**
      * Minimum items to always render regardless of viewport.
      * Ensures small datasets render completely.
@@ -161,8 +244,33 @@ export const DEPENDENCY_LINES = {
     CONNECTOR_RADIUS: 3,
     /** Arrow size for predecessor arrows */
     ARROW_SIZE: 6,
+    /** Minimum horizontal reach of a link curve out of / into its anchor */
+    CURVE_OFFSET: 24,
 } as const;
 
+// Dependency link types (scheduler notation: predecessor anchor, successor anchor)
+export const DEPENDENCY_TYPES = ["FS", "SS", "FF", "SF"] as const;
+export type DependencyType = typeof DEPENDENCY_TYPES[number];
+
+// Resource keys for dependency link type labels (legend, issue messages)
+export const DEPENDENCY_TYPE_LABEL_KEYS: Record<DependencyType, string> = {
+    FS: "Visual_LinkType_FS",
+    SS: "Visual_LinkType_SS",
+    FF: "Visual_LinkType_FF",
+    SF: "Visual_LinkType_SF",
+};
+
+// Dash pattern per dependency link type ("" = solid)
+export const DEPENDENCY_TYPE_DASHES: Record<DependencyType, string> = {
+    FS: "",
+    SS: "6,3",
+    FF: "2,3",
+    SF: "8,3,2,3",
+};
+
+// States counted as 100% complete when an item has no Percent Complete value
+export const DEFAULT_DONE_STATES = ["Closed", "Done", "Completed", "Resolved"] as const;
+
 // Default colors
 export const DEFAULT_COLORS = {
     epic: "#ff7b00",
@@ -170,7 +278,93 @@ export const DEFAULT_COLORS = {
     milestone: "#ec008c",
     feature: "#773b93",
     dependencyLine: "#94A3B8",
+    criticalPath: "#DC2626",
+    conflict: "#EF4444",
+    marker: "#7C3AED",
+    markerRange: "#F59E0B",
 } as const;
 
+// Colours assigned in order to work item types without a default colour
+// (e.g. Initiative, Objective, User Story)
+export const TYPE_COLOR_PALETTE = [
+    "#0078d4",
+    "#107c10",
+    "#d13438",
+    "#008575",
+    "#8764b8",
+    "#ca5010",
+    "#4f6bed",
+    "#986f0b",
+] as const;
+
+// Fiscal calendar patterns: calendar months, or retail periods of whole weeks
+export const FISCAL_PATTERNS = ["months", "445", "454", "544"] as const;
+export type FiscalPattern = typeof FISCAL_PATTERNS[number];
+
+// Weeks per period in each quarter of a retail fiscal calendar
+export const FISCAL_PATTERN_WEEKS: Record<Exclude<FiscalPattern, "months">, readonly number[]> = {
+    "445": [4, 4, 5],
+    "454": [4, 5, 4],
+    "544": [5, 4, 4],
+};
+
+// Line styles for report-defined markers (value matches capabilities.json)
+export const MARKER_LINE_STYLES = ["solid", "dashed", "dotted"] as const;
+export type MarkerLineStyle = typeof MARKER_LINE_STYLES[number];
+
+// PSPF security classifications, lowest to highest (value matches capabilities.json),
+// with the banner colours recommended for text-based markings
+export const CLASSIFICATIONS = [
+    { value: "UNOFFICIAL", background: "#FFFFFF", color: "#000000" },
+    { value: "OFFICIAL", background: "#FFFFFF", color: "#000000" },
+    { value: "OFFICIAL: Sensitive", background: "#FFFF00", color: "#000000" },
+    { value: "PROTECTED", background: "#4F81BD", color: "#FFFFFF" },
+    { value: "SECRET", background: "#E5B8B7", color: "#000000" },
+    { value: "TOP SECRET", background: "#FF0000", color: "#FFFFFF" },
+] as const;
+export type Classification = typeof CLASSIFICATIONS[number]["value"];
+
+// PSPF information management markers (which replaced the older DLMs)
+export const INFORMATION_MANAGEMENT_MARKERS = ["Legal privilege", "Legislative secrecy", "Personal privacy"] as const;
+export type InformationManagementMarker = typeof INFORMATION_MANAGEMENT_MARKERS[number];
+
+// Classification / marker setting value for no marking
+export const CLASSIFICATION_NONE = "none";
+
 // Milliseconds per day (for date calculations - prefer DateService methods)
 export const MS_PER_DAY = 86400000;
+
+// Regions whose week starts on Sunday (week 1 contains 1 January)
+export const SUNDAY_FIRST_REGIONS = [
+    "US", "CA", "MX", "BR", "JP", "KR", "TW", "HK", "CN", "IN", "IL", "PH", "ZA", "SG", "TH", "PE", "CO", "VE",
+] as const;
+
+// Regions whose week starts on Saturday
+export const SATURDAY_FIRST_REGIONS = [
+    "AE", "AF", "BH", "DJ", "DZ", "EG", "IQ", "IR", "JO", "KW", "LY", "OM", "QA", "SA", "SD", "SY",
+] as const;
+
+// Regions whose weekend is Friday and Saturday
+export const FRIDAY_SATURDAY_WEEKEND_REGIONS = [
+    "BH", "DZ", "EG", "IL", "IQ", "JO", "KW", "LY", "OM", "QA", "SA", "SD", "SY", "YE",
+] as const;
+
+// Languages written right to left
+export const RTL_LANGUAGES = ["ar", "he", "iw", "fa", "ur", "ps", "yi", "dv", "ug"] as const;
+
+// Separator between tags in an Azure DevOps tags value ("Risk; Customer")
+export const TAG_SEPARATOR = ";";
+
+// Tag chip colours; a tag always gets the same colour (see TagService.getColor)
+export const TAG_COLOR_PALETTE = [
+    "#2563EB",
+    "#059669",
+    "#D97706",
+    "#DC2626",
+    "#7C3AED",
+    "#0891B2",
+    "#DB2777",
+    "#65A30D",
+    "#4B5563",
+    "#9333EA",
+] as const;
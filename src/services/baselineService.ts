@@ -0,0 +1,76 @@
+/**
+ * BaselineService - Baseline comparison and slip
+ *
+ * Compares each work item's current dates with its baseline (the committed
+ * plan) to work out how far it has slipped:
+ * - Slip is measured on the target date, or on the start date when either
+ *   target is missing
+ * - Positive slip = later than the baseline, negative = ahead of it
+ * - Group summaries count the slipped items and total their slip
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+
+/**
+ * Minimum shape of an item with baseline dates.
+ */
+export interface BaselineItem {
+    startDate: Date | null;
+    targetDate: Date | null;
+    baselineStartDate: Date | null;
+    baselineTargetDate: Date | null;
+}
+
+/**
+ * Slip across a set of items.
+ */
+export interface SlipSummary {
+    /** Items later than their baseline */
+    slippedCount: number;
+    /** Sum of the positive slips in days */
+    totalSlipDays: number;
+}
+
+export class BaselineService {
+    /**
+     * Whether an item has any baseline date.
+     */
+    static hasBaseline(item: BaselineItem): boolean {
+        return item.baselineStartDate !== null || item.baselineTargetDate !== null;
+    }
+
+    /**
+     * Days between the baseline and current dates.
+     *
+     * @returns Slip in whole days (negative = ahead), or null if the item
+     *          has no comparable pair of dates
+     */
+    static getSlip(item: BaselineItem): number | null {
+        if (item.targetDate && item.baselineTargetDate) {
+            return DateService.daysBetween(item.baselineTargetDate, item.targetDate);
+        }
+        if (item.startDate && item.baselineStartDate) {
+            return DateService.daysBetween(item.baselineStartDate, item.startDate);
+        }
+        return null;
+    }
+
+    /**
+     * Count and total the slipped items. Items ahead of their baseline
+     * don't offset the slip of others.
+     */
+    static summarize(items: BaselineItem[]): SlipSummary {
+        const summary: SlipSummary = { slippedCount: 0, totalSlipDays: 0 };
+        items.forEach(item => {
+            const slip = BaselineService.getSlip(item);
+            if (slip !== null && slip > 0) {
+                summary.slippedCount++;
+                summary.totalSlipDays += slip;
+            }
+        });
+        return summary;
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * ClassificationService - PSPF security classification markings
+ *
+ * Builds the text and colours of the classification banners shown at the
+ * top and bottom of the visual (and of every printed page):
+ * - The classification (UNOFFICIAL to TOP SECRET)
+ * - Caveats, e.g. "CABINET" or "REL AUS/NZL", separated by semicolons
+ * - An optional information management marker (formerly a DLM), e.g.
+ *   "Personal privacy"
+ *
+ * Segments are joined with " // ", e.g. "PROTECTED // CABINET // Legal privilege".
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import {
+    CLASSIFICATIONS,
+    Classification,
+    INFORMATION_MANAGEMENT_MARKERS,
+    InformationManagementMarker
+} from "../constants";
+
+/**
+ * A classification with its caveats and marker.
+ */
+export interface ClassificationMarking {
+    level: Classification;
+    caveats: string[];
+    dlm: InformationManagementMarker | null;
+}
+
+const SEGMENT_SEPARATOR = " // ";
+
+export class ClassificationService {
+    /**
+     * A classification setting value, or null for none / unknown values.
+     */
+    static parseLevel(value: string | null | undefined): Classification | null {
+        const level = CLASSIFICATIONS.find(classification => classification.value === value);
+        return level ? level.value : null;
+    }
+
+    /**
+     * An information management marker setting value, or null.
+     */
+    static parseDlm(value: string | null | undefined): InformationManagementMarker | null {
+        return (INFORMATION_MANAGEMENT_MARKERS as readonly string[]).includes(String(value))
+            ? value as InformationManagementMarker
+            : null;
+    }
+
+    /**
+     * Split a caveats value on semicolons, dropping blanks and repeats.
+     */
+    static parseCaveats(text: string | null | undefined): string[] {
+        const caveats: string[] = [];
+        String(text || "").split(";").forEach(part => {
+            const caveat = part.trim();
+            if (caveat && !caveats.includes(caveat)) caveats.push(caveat);
+        });
+        return caveats;
+    }
+
+    /**
+     * Banner text for a marking.
+     */
+    static getText(marking: ClassificationMarking): string {
+        const segments: string[] = [marking.level, ...marking.caveats];
+        if (marking.dlm) segments.push(marking.dlm);
+        return segments.join(SEGMENT_SEPARATOR);
+    }
+
+    /**
+     * Banner background and text colours for a classification.
+     */
+    static getColors(level: Classification): { background: string; color: string } {
+        const classification = CLASSIFICATIONS.find(c => c.value === level) || CLASSIFICATIONS[0];
+        return { background: classification.background, color: classification.color };
+    }
+}
@@ -14,6 +14,9 @@
 import { DateService } from "./dateService";
 import {
     DAY_WIDTHS,
+    TIME_SCALES,
+    ZOOM_LEVELS,
+    ZOOM_ROLLOVER_LEVEL,
     TimeScale,
     ZoomLevel,
     LAYOUT,
@@ -48,6 +51,20 @@ export interface RowBounds {
     isVisible: boolean;
 }
 
+/**
+ * A date window on the timeline (e.g. the horizontally visible range).
+ */
+export interface DateWindow {
+    /** First date in the window */
+    start: Date;
+    /** Last date in the window (inclusive) */
+    end: Date;
+    /** X pixel position of the window start */
+    startX: number;
+    /** X pixel position of the window end */
+    endX: number;
+}
+
 /**
  * Configuration for the coordinate engine.
  */
@@ -173,15 +190,18 @@ export class CoordinateEngine {
      *
      * @param startDate - Range start
      * @param endDate - Range end
+     * @param window - Optional date window to test against (defaults to the whole timeline)
      * @returns true if any part of the range is visible
      */
-    isRangeVisible(startDate: Date | null, endDate: Date | null): boolean {
+    isRangeVisible(startDate: Date | null, endDate: Date | null, window?: { start: Date; end: Date }): boolean {
         if (!startDate && !endDate) return false;
 
         const start = startDate || endDate!;
         const end = endDate || startDate!;
+        const windowStart = window ? window.start : this.config.viewStart;
+        const windowEnd = window ? window.end : this.config.viewEnd;
 
-        return start <= this.config.viewEnd && end >= this.config.viewStart;
+        return start <= windowEnd && end >= windowStart;
     }
 
     /**
@@ -258,11 +278,10 @@ export class CoordinateEngine {
      *
      * @param scrollLeft - Current horizontal scroll position
      * @param viewportWidth - Width of the visible viewport
+     * @param bufferPx - Pixels to extend the range by on either side
      * @returns VisibleRange with X bounds
      */
-    calculateVisibleXRange(scrollLeft: number, viewportWidth: number): VisibleRange {
-        const bufferPx = OCCLUSION.BUFFER_PX;
-
+    calculateVisibleXRange(scrollLeft: number, viewportWidth: number, bufferPx: number = OCCLUSION.BUFFER_PX): VisibleRange {
         return {
             startX: Math.max(0, scrollLeft - bufferPx),
             endX: Math.min(this._timelineWidth, scrollLeft + viewportWidth + bufferPx),
@@ -271,6 +290,45 @@ export class CoordinateEngine {
         };
     }
 
+    /**
+     * Calculate the date window covered by the horizontal viewport plus a
+     * buffer either side, clamped to the timeline bounds. Used for
+     * time-axis culling of headers, grid lines and bars.
+     *
+     * @param scrollLeft - Current horizontal scroll position
+     * @param viewportWidth - Width of the visible viewport
+     * @param bufferPx - Pixels to extend the window by on either side
+     * @returns DateWindow with the first and last visible dates
+     */
+    calculateVisibleDateWindow(
+        scrollLeft: number,
+        viewportWidth: number,
+        bufferPx: number = OCCLUSION.HORIZONTAL_BUFFER_PX
+    ): DateWindow {
+        const range = this.calculateVisibleXRange(scrollLeft, viewportWidth, bufferPx);
+        // Include the partially visible day at the right edge
+        const end = DateService.addDays(this.xToDate(range.endX), 1);
+
+        return {
+            start: this.xToDate(range.startX),
+            end: end > this.config.viewEnd ? new Date(this.config.viewEnd) : end,
+            startX: range.startX,
+            endX: range.endX,
+        };
+    }
+
+    /**
+     * Get a window covering the whole timeline (no culling).
+     */
+    getFullDateWindow(): DateWindow {
+        return {
+            start: new Date(this.config.viewStart),
+            end: new Date(this.config.viewEnd),
+            startX: 0,
+            endX: this._timelineWidth,
+        };
+    }
+
     /**
      * Check if an X range is visible in the viewport.
      *
@@ -327,6 +385,37 @@ export class CoordinateEngine {
         this._timelineWidth = this._totalDays * this._dayWidth;
     }
 
+    /**
+     * Step the zoom in or out by one level.
+     *
+     * Zooming past either end of ZOOM_LEVELS rolls over into the
+     * neighbouring time scale at ZOOM_ROLLOVER_LEVEL, so monthly 4x
+     * zooms in to weekly 1x and weekly 0.5x zooms out to monthly 1x.
+     *
+     * @param timeScale - Current time scale
+     * @param zoomLevel - Current zoom level
+     * @param direction - 1 to zoom in, -1 to zoom out
+     * @returns The next scale and zoom, or null at the finest/coarsest limit
+     */
+    static stepZoom(
+        timeScale: TimeScale,
+        zoomLevel: ZoomLevel,
+        direction: 1 | -1
+    ): { timeScale: TimeScale; zoomLevel: ZoomLevel } | null {
+        const zoomIndex = ZOOM_LEVELS.indexOf(zoomLevel);
+        const nextZoomIndex = zoomIndex + direction;
+        if (zoomIndex >= 0 && nextZoomIndex >= 0 && nextZoomIndex < ZOOM_LEVELS.length) {
+            return { timeScale, zoomLevel: ZOOM_LEVELS[nextZoomIndex] };
+        }
+
+        // TIME_SCALES runs from finest to coarsest, so zooming in moves towards index 0
+        const nextScaleIndex = TIME_SCALES.indexOf(timeScale) - direction;
+        if (nextScaleIndex < 0 || nextScaleIndex >= TIME_SCALES.length) {
+            return null;
+        }
+        return { timeScale: TIME_SCALES[nextScaleIndex], zoomLevel: ZOOM_ROLLOVER_LEVEL };
+    }
+
     /**
      * Create a snapshot of current configuration for debugging.
      */
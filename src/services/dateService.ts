@@ -5,6 +5,7 @@
  * - Daylight Savings Time transitions (AEDT/AEST in NSW/VIC/ACT)
  * - Leap years
  * - Month boundary calculations
+ * - Locale conventions (date formats, first day of week, week numbering)
  *
  * All methods are pure functions with no side effects.
  *
@@ -12,7 +13,33 @@
  * The setDate() approach handles DST transitions correctly.
  */
 
-import { MS_PER_DAY } from "../constants";
+import { MS_PER_DAY, SUNDAY_FIRST_REGIONS, SATURDAY_FIRST_REGIONS, FRIDAY_SATURDAY_WEEKEND_REGIONS, RTL_LANGUAGES } from "../constants";
+
+// Weekend days when the locale doesn't say otherwise
+const SATURDAY_SUNDAY = [0, 6] as const;
+
+/**
+ * Week conventions for a locale.
+ */
+export interface WeekInfo {
+    /** First day of the week (0 = Sunday … 6 = Saturday) */
+    firstDay: number;
+    /** Days of the new year that week 1 must contain (4 = ISO 8601, 1 = week containing 1 January) */
+    minimalDays: number;
+    /** Weekend days (0 = Sunday … 6 = Saturday) */
+    weekend: number[];
+}
+
+// Intl.Locale week data (not yet in the TypeScript lib); 1 = Monday … 7 = Sunday
+interface LocaleWeekInfo {
+    firstDay: number;
+    minimalDays: number;
+    weekend?: number[];
+}
+interface LocaleWithWeekInfo {
+    weekInfo?: LocaleWeekInfo;
+    getWeekInfo?: () => LocaleWeekInfo;
+}
 
 export class DateService {
     /**
@@ -76,29 +103,104 @@ export class DateService {
     }
 
     /**
-     * Get ISO week number for a date.
+     * Parse a typed "YYYY-MM-DD" date as a local date. new Date() would
+     * read it as UTC midnight, a day early west of Greenwich.
+     *
+     * @param text - The date text
+     * @returns Date at local midnight, or null if not a real date
+     */
+    static parseIsoDate(text: string): Date | null {
+        const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+        if (!match) return null;
+        const [year, month, day] = match.slice(1).map(Number);
+        const date = new Date(year, month - 1, day);
+        return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+    }
+
+    /**
+     * Format a local date as "YYYY-MM-DD", the inverse of parseIsoDate().
+     *
+     * @param date - The date to format
+     * @returns The date text
+     */
+    static formatIsoDate(date: Date): string {
+        const pad = (value: number) => String(value).padStart(2, "0");
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+
+    /**
+     * Get the week number for a date.
      *
-     * Uses the ISO 8601 definition:
+     * Defaults to the ISO 8601 definition:
      * - Week starts on Monday
-     * - Week 1 contains the first Thursday of the year
+     * - Week 1 contains the first Thursday of the year (at least 4 days)
+     *
+     * Other locales pass their own week start and minimal days, e.g.
+     * Sunday / 1 for the US, where week 1 is the week containing 1 January.
      *
      * @param date - The date to get week number for
+     * @param firstDay - First day of the week (0 = Sunday … 6 = Saturday)
+     * @param minimalDays - Days of the new year that week 1 must contain
      * @returns Week number (1-53)
      */
-    static getWeekNumber(date: Date): number {
-        // Create UTC date to avoid timezone issues
-        const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    static getWeekNumber(date: Date, firstDay: number = 1, minimalDays: number = 4): number {
+        // Work in UTC to avoid timezone issues
+        const weekStartOf = (utc: number) => utc - ((new Date(utc).getUTCDay() - firstDay + 7) % 7) * MS_PER_DAY;
+
+        const weekStart = weekStartOf(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+        // A week belongs to the year holding at least minimalDays of it
+        const weekYear = new Date(weekStart + (7 - minimalDays) * MS_PER_DAY).getUTCFullYear();
+        const firstWeekStart = weekStartOf(Date.UTC(weekYear, 0, minimalDays));
+
+        return Math.round((weekStart - firstWeekStart) / (7 * MS_PER_DAY)) + 1;
+    }
+
+    /**
+     * Get the first day of the week containing a date.
+     *
+     * @param date - The date
+     * @param firstDay - First day of the week (0 = Sunday … 6 = Saturday)
+     * @returns The week start (or same date if it is the first day)
+     */
+    static getWeekStart(date: Date, firstDay: number): Date {
+        return DateService.addDays(date, -((date.getDay() - firstDay + 7) % 7));
+    }
 
-        // Set to nearest Thursday: current date + 4 - current day number
-        // (Sunday = 0, so we treat it as 7)
-        const dayNum = d.getUTCDay() || 7;
-        d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+    /**
+     * Get the week conventions for a locale, from the browser's locale data
+     * where available, otherwise by region (Monday / ISO 8601 by default).
+     *
+     * @param locale - BCP 47 locale, e.g. "en-US" or "ar-SA"
+     */
+    static getWeekInfo(locale: string): WeekInfo {
+        try {
+            const intlLocale = new Intl.Locale(locale) as unknown as LocaleWithWeekInfo & Intl.Locale;
+            const info = intlLocale.getWeekInfo?.() || intlLocale.weekInfo;
+            if (info) {
+                const weekend = info.weekend ? info.weekend.map(day => day % 7) : [...SATURDAY_SUNDAY];
+                return { firstDay: info.firstDay % 7, minimalDays: info.minimalDays, weekend };
+            }
 
-        // Get first day of the year
-        const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+            const region = (intlLocale.maximize().region || "").toUpperCase();
+            const weekend = (FRIDAY_SATURDAY_WEEKEND_REGIONS as readonly string[]).includes(region) ? [5, 6] : [...SATURDAY_SUNDAY];
+            if ((SUNDAY_FIRST_REGIONS as readonly string[]).includes(region)) return { firstDay: 0, minimalDays: 1, weekend };
+            if ((SATURDAY_FIRST_REGIONS as readonly string[]).includes(region)) return { firstDay: 6, minimalDays: 1, weekend };
+            return { firstDay: 1, minimalDays: 4, weekend };
+        } catch {
+            // Invalid locale: fall through to ISO 8601
+        }
+        return { firstDay: 1, minimalDays: 4, weekend: [...SATURDAY_SUNDAY] };
+    }
 
-        // Calculate week number
-        return Math.ceil((((d.getTime() - yearStart.getTime()) / MS_PER_DAY) + 1) / 7);
+    /**
+     * Check whether a locale is written right to left (e.g. Arabic, Hebrew).
+     *
+     * @param locale - BCP 47 locale
+     */
+    static isRtlLocale(locale: string): boolean {
+        const language = locale.split(/[-_]/)[0].toLowerCase();
+        return (RTL_LANGUAGES as readonly string[]).includes(language);
     }
 
     /**
@@ -159,14 +261,14 @@ export class DateService {
     }
 
     /**
-     * Check if a date is a weekend (Saturday or Sunday).
+     * Check if a date is a weekend day.
      *
      * @param date - The date to check
-     * @returns true if Saturday or Sunday
+     * @param weekend - Weekend days (0 = Sunday … 6 = Saturday), from getWeekInfo()
+     * @returns true if the date falls on the weekend (Saturday or Sunday by default)
      */
-    static isWeekend(date: Date): boolean {
-        const day = date.getDay();
-        return day === 0 || day === 6;
+    static isWeekend(date: Date, weekend: readonly number[] = SATURDAY_SUNDAY): boolean {
+        return weekend.includes(date.getDay());
     }
 
     /**
@@ -221,14 +323,19 @@ export class DateService {
     }
 
     /**
-     * Format a date for Australian locale display.
+     * Format a date for display in a locale.
      *
      * @param date - The date to format
      * @param options - Intl.DateTimeFormat options
+     * @param locale - BCP 47 locale (defaults to Australian English)
      * @returns Formatted date string
      */
-    static formatAU(date: Date, options: Intl.DateTimeFormatOptions): string {
-        return date.toLocaleDateString("en-AU", options);
+    static format(date: Date, options: Intl.DateTimeFormatOptions, locale: string = "en-AU"): string {
+        try {
+            return date.toLocaleDateString(locale, options);
+        } catch {
+            return date.toLocaleDateString("en-AU", options);
+        }
     }
 
     /**
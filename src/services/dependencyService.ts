@@ -0,0 +1,136 @@
+/**
+ * DependencyService - Predecessor link parsing and geometry rules
+ *
+ * Parses predecessor values into typed links. A value can hold one ID or a
+ * delimited list, each entry optionally carrying its own link type and lag
+ * in scheduler notation, e.g.:
+ * - "101"
+ * - "101, 102; 103"
+ * - "101FS, 102SS+3d, 103FF-2 days"
+ *
+ * Entries without an inline type or lag take the row's Link Type / Link Lag
+ * columns (or finish-to-start with no lag), which also supports a separate
+ * links table joined to the work items by ID.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DEPENDENCY_TYPES, DependencyType } from "../constants";
+
+/**
+ * A typed link from a predecessor to the item that holds it.
+ */
+export interface DependencyLink {
+    /** Work item ID of the predecessor */
+    predecessorId: number;
+    /** Link type (predecessor anchor, successor anchor) */
+    type: DependencyType;
+    /** Lag in days (negative = lead) */
+    lagDays: number;
+}
+
+/**
+ * Which end of each bar a link connects.
+ */
+export interface DependencyAnchors {
+    /** Anchor on the predecessor */
+    from: "start" | "end";
+    /** Anchor on the successor */
+    to: "start" | "end";
+}
+
+// Long-form link type names (letters only, lower case) accepted in the Link Type column
+const TYPE_NAMES: { [name: string]: DependencyType } = {
+    finishtostart: "FS",
+    starttostart: "SS",
+    finishtofinish: "FF",
+    starttofinish: "SF",
+};
+
+// One list entry: ID, optional type, optional signed lag with optional day unit
+const LINK_PATTERN = /^#?(\d+)\s*(FS|SS|FF|SF)?\s*(?:([+-]\s*\d+(?:\.\d+)?)\s*(?:d|days?)?)?$/i;
+
+export class DependencyService {
+    /**
+     * Parse a link type such as "SS", "ff" or "Finish-to-Start".
+     *
+     * @returns The link type, or null if the value is empty or not recognised
+     */
+    static parseType(value: unknown): DependencyType | null {
+        if (value === null || value === undefined) return null;
+        const text = String(value).trim();
+        const upper = text.toUpperCase();
+        if ((DEPENDENCY_TYPES as readonly string[]).includes(upper)) {
+            return upper as DependencyType;
+        }
+        return TYPE_NAMES[text.toLowerCase().replace(/[^a-z]/g, "")] || null;
+    }
+
+    /**
+     * Parse a lag such as 3, "-2", "+3d" or "5 days".
+     *
+     * @returns Lag in days, or null if the value is empty or not a number
+     */
+    static parseLag(value: unknown): number | null {
+        if (value === null || value === undefined || value === "") return null;
+        if (typeof value === "number") return isFinite(value) ? value : null;
+        const match = /^([+-]?\s*\d+(?:\.\d+)?)\s*(?:d|days?)?$/i.exec(String(value).trim());
+        return match ? Number(match[1].replace(/\s/g, "")) : null;
+    }
+
+    /**
+     * Parse a predecessor value into links. Entries are separated by commas,
+     * semicolons, pipes or new lines; unrecognised entries are skipped.
+     *
+     * @param value - Predecessor column value
+     * @param defaultType - Type for entries without an inline type
+     * @param defaultLag - Lag for entries without an inline lag
+     */
+    static parsePredecessors(value: unknown, defaultType: DependencyType = "FS", defaultLag: number = 0): DependencyLink[] {
+        if (value === null || value === undefined) return [];
+
+        const links: DependencyLink[] = [];
+        String(value).split(/[,;|\n]+/).forEach(entry => {
+            const match = LINK_PATTERN.exec(entry.trim());
+            if (!match) return;
+            const predecessorId = Number(match[1]);
+            if (!(predecessorId > 0)) return;
+            DependencyService.mergeLinks(links, [{
+                predecessorId,
+                type: match[2] ? match[2].toUpperCase() as DependencyType : defaultType,
+                lagDays: match[3] ? Number(match[3].replace(/\s/g, "")) : defaultLag,
+            }]);
+        });
+        return links;
+    }
+
+    /**
+     * Add links to a list, skipping any with the same predecessor and type
+     * (repeated rows from a links table join).
+     */
+    static mergeLinks(target: DependencyLink[], links: DependencyLink[]): void {
+        links.forEach(link => {
+            const exists = target.some(l => l.predecessorId === link.predecessorId && l.type === link.type);
+            if (!exists) target.push(link);
+        });
+    }
+
+    /**
+     * Anchor points for a link type: the first letter is the predecessor
+     * anchor and the second the successor anchor (S = start, F = finish).
+     */
+    static getAnchors(type: DependencyType): DependencyAnchors {
+        return {
+            from: type.charAt(0) === "S" ? "start" : "end",
+            to: type.charAt(1) === "S" ? "start" : "end",
+        };
+    }
+
+    /**
+     * Key identifying one link between two work items.
+     */
+    static linkKey(predecessorId: number, successorId: number, type: DependencyType): string {
+        return `${predecessorId}>${successorId}:${type}`;
+    }
+}
@@ -0,0 +1,185 @@
+/**
+ * FiscalCalendar - Fiscal years, quarters and periods
+ *
+ * Supports two kinds of fiscal calendar:
+ * - Month-based: the year starts on the 1st of any month (e.g. July for the
+ *   Australian financial year) and quarters are three calendar months
+ * - Retail 4-4-5, 4-5-4 or 5-4-4: the year is 52 or 53 whole weeks, starting
+ *   on the week start day nearest the 1st of the start month. Each quarter
+ *   is 13 weeks split into periods of that many weeks; a 53rd week is added
+ *   to the last period of the year
+ *
+ * Fiscal years are numbered by the calendar year they end in (FY26 =
+ * July 2025 to June 2026) or, optionally, the year they start in.
+ *
+ * A January start with calendar months is the ordinary calendar year.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+import { FISCAL_PATTERN_WEEKS, FiscalPattern } from "../constants";
+
+/**
+ * Shape of a fiscal calendar.
+ */
+export interface FiscalCalendarOptions {
+    /** First month of the fiscal year (0 = January, like JS Date) */
+    startMonth: number;
+    /** Calendar months, or the weeks per period of a retail calendar */
+    pattern: FiscalPattern;
+    /** Day retail weeks start on (0 = Sunday) */
+    weekStartDay: number;
+    /** Number years by the calendar year they end in, or start in */
+    yearLabel: "end" | "start";
+}
+
+const MONTHS_PER_YEAR = 12;
+const MONTHS_PER_QUARTER = 3;
+
+export class FiscalCalendar {
+    /**
+     * Whether the options describe anything other than the calendar year.
+     */
+    static isFiscal(options: FiscalCalendarOptions): boolean {
+        return options.startMonth !== 0 || options.pattern !== "months";
+    }
+
+    /**
+     * First day of the fiscal year containing a date.
+     */
+    static getYearStart(date: Date, options: FiscalCalendarOptions): Date {
+        const year = date.getFullYear();
+        for (const anchorYear of [year + 1, year, year - 1]) {
+            const start = FiscalCalendar.getYearStartFor(anchorYear, options);
+            if (start <= date) return start;
+        }
+        return FiscalCalendar.getYearStartFor(year - 2, options);
+    }
+
+    /**
+     * First day of the fiscal year after the one starting on yearStart.
+     */
+    static getNextYearStart(yearStart: Date, options: FiscalCalendarOptions): Date {
+        return FiscalCalendar.getYearStartFor(FiscalCalendar.getAnchorYear(yearStart, options) + 1, options);
+    }
+
+    /**
+     * Fiscal year number of a date (e.g. 2026 for FY26).
+     */
+    static getFiscalYear(date: Date, options: FiscalCalendarOptions): number {
+        const anchorYear = FiscalCalendar.getAnchorYear(FiscalCalendar.getYearStart(date, options), options);
+        const endsInNextYear = options.startMonth > 0;
+        return options.yearLabel === "end" && endsInNextYear ? anchorYear + 1 : anchorYear;
+    }
+
+    /**
+     * First day of the fiscal month (a calendar month, or a retail period)
+     * containing a date.
+     */
+    static getMonthStart(date: Date, options: FiscalCalendarOptions): Date {
+        const starts = FiscalCalendar.getPeriodStarts(FiscalCalendar.getYearStart(date, options), options);
+        let start = starts[0];
+        for (let i = 1; i < MONTHS_PER_YEAR && starts[i] <= date; i++) start = starts[i];
+        return start;
+    }
+
+    /**
+     * First day of the fiscal month after the one starting on monthStart.
+     */
+    static getNextMonthStart(monthStart: Date, options: FiscalCalendarOptions): Date {
+        const starts = FiscalCalendar.getPeriodStarts(FiscalCalendar.getYearStart(monthStart, options), options);
+        return starts.find(start => start > monthStart) || starts[MONTHS_PER_YEAR];
+    }
+
+    /**
+     * Fiscal month of a date within its fiscal year (0-11).
+     */
+    static getMonthIndex(date: Date, options: FiscalCalendarOptions): number {
+        const starts = FiscalCalendar.getPeriodStarts(FiscalCalendar.getYearStart(date, options), options);
+        let index = 0;
+        while (index < MONTHS_PER_YEAR - 1 && starts[index + 1] <= date) index++;
+        return index;
+    }
+
+    /**
+     * First of the calendar month a fiscal month is named after. Retail
+     * periods don't start on the 1st, but each stands for one month.
+     */
+    static getNominalMonth(date: Date, options: FiscalCalendarOptions): Date {
+        const anchorYear = FiscalCalendar.getAnchorYear(FiscalCalendar.getYearStart(date, options), options);
+        return DateService.getMonthStart(anchorYear, options.startMonth + FiscalCalendar.getMonthIndex(date, options));
+    }
+
+    /**
+     * Fiscal quarter of a date (1-4).
+     */
+    static getQuarter(date: Date, options: FiscalCalendarOptions): number {
+        return Math.floor(FiscalCalendar.getMonthIndex(date, options) / MONTHS_PER_QUARTER) + 1;
+    }
+
+    /**
+     * First day of the fiscal quarter containing a date.
+     */
+    static getQuarterStart(date: Date, options: FiscalCalendarOptions): Date {
+        const starts = FiscalCalendar.getPeriodStarts(FiscalCalendar.getYearStart(date, options), options);
+        return starts[(FiscalCalendar.getQuarter(date, options) - 1) * MONTHS_PER_QUARTER];
+    }
+
+    /**
+     * First day of the fiscal quarter after the one starting on quarterStart.
+     */
+    static getNextQuarterStart(quarterStart: Date, options: FiscalCalendarOptions): Date {
+        const starts = FiscalCalendar.getPeriodStarts(FiscalCalendar.getYearStart(quarterStart, options), options);
+        return starts[FiscalCalendar.getQuarter(quarterStart, options) * MONTHS_PER_QUARTER];
+    }
+
+    /**
+     * Week of the fiscal year (1-53) for retail calendars.
+     */
+    static getWeekNumber(date: Date, options: FiscalCalendarOptions): number {
+        return Math.floor(DateService.daysBetween(FiscalCalendar.getYearStart(date, options), date) / 7) + 1;
+    }
+
+    /**
+     * Start of the fiscal year named after the start month in anchorYear.
+     */
+    private static getYearStartFor(anchorYear: number, options: FiscalCalendarOptions): Date {
+        const first = DateService.getMonthStart(anchorYear, options.startMonth);
+        if (options.pattern === "months") return first;
+        // Retail years start on the week start day nearest the 1st
+        const offset = (first.getDay() - options.weekStartDay + 7) % 7;
+        return DateService.addDays(first, offset <= 3 ? -offset : 7 - offset);
+    }
+
+    /**
+     * Calendar year of the start month for a fiscal year start (a retail
+     * year can start a few days before the 1st, in the previous month).
+     */
+    private static getAnchorYear(yearStart: Date, options: FiscalCalendarOptions): number {
+        return DateService.addDays(yearStart, options.pattern === "months" ? 0 : 7).getFullYear();
+    }
+
+    /**
+     * The 12 fiscal month starts of a year, then the next year's start.
+     */
+    private static getPeriodStarts(yearStart: Date, options: FiscalCalendarOptions): Date[] {
+        const nextYearStart = FiscalCalendar.getNextYearStart(yearStart, options);
+        const starts: Date[] = [];
+        if (options.pattern === "months") {
+            for (let i = 0; i < MONTHS_PER_YEAR; i++) {
+                starts.push(DateService.getMonthStart(yearStart.getFullYear(), yearStart.getMonth() + i));
+            }
+        } else {
+            const weeks = FISCAL_PATTERN_WEEKS[options.pattern];
+            let start = yearStart;
+            for (let i = 0; i < MONTHS_PER_YEAR; i++) {
+                starts.push(start);
+                start = DateService.addDays(start, weeks[i % weeks.length] * 7);
+            }
+        }
+        starts.push(nextYearStart);
+        return starts;
+    }
+}
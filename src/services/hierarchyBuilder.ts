@@ -0,0 +1,181 @@
+/**
+ * HierarchyBuilder - Work item tree construction
+ *
+ * Builds a parent/child tree from a flat list of work items by resolving
+ * each item's parent work item ID, whatever the parent's type. Any depth
+ * is supported, so the same builder handles Epic → Release → Feature →
+ * Milestone as well as other ADO process templates
+ * (e.g. Epic → Feature → User Story → Task).
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+/**
+ * Minimum shape of an item the builder can arrange.
+ */
+export interface HierarchyItem {
+    /** Unique item key */
+    id: string;
+    /** Work item ID that parent references resolve against */
+    workItemId: number;
+    /** Parent work item ID, or null for top-level items */
+    parentId: string | null;
+}
+
+/**
+ * A node in the built tree.
+ */
+export interface TreeNode<T extends HierarchyItem> {
+    /** The work item at this node */
+    item: T;
+    /** Child nodes in sibling order */
+    children: TreeNode<T>[];
+    /** Depth in the tree (0 = root) */
+    depth: number;
+}
+
+export class HierarchyBuilder {
+    /**
+     * Build a forest from a flat list of items.
+     *
+     * - Items whose parent is not in the data become roots.
+     * - Items rejected by `include` are left out, and their children attach
+     *   to the nearest included ancestor instead.
+     * - Parent cycles are broken at the first item found to repeat, which
+     *   becomes a root.
+     *
+     * @param items - Items in data order
+     * @param include - Optional filter for items to place in the tree
+     * @param compare - Optional sibling order (stable, defaults to data order)
+     * @returns Root nodes of the tree
+     */
+    static build<T extends HierarchyItem>(
+        items: T[],
+        include?: (item: T) => boolean,
+        compare?: (a: T, b: T) => number
+    ): TreeNode<T>[] {
+        const byWorkItemId = HierarchyBuilder.indexByWorkItemId(items);
+
+        const nodes = new Map<string, TreeNode<T>>();
+        items.forEach(item => {
+            if ((!include || include(item)) && !nodes.has(item.id)) {
+                nodes.set(item.id, { item, children: [], depth: 0 });
+            }
+        });
+
+        // Resolve each node's nearest included ancestor
+        const parentOf = new Map<string, TreeNode<T> | null>();
+        nodes.forEach(node => {
+            parentOf.set(node.item.id, HierarchyBuilder.findIncludedAncestor(node.item, byWorkItemId, nodes));
+        });
+        HierarchyBuilder.breakCycles(nodes, parentOf);
+
+        const roots: TreeNode<T>[] = [];
+        nodes.forEach(node => {
+            const parent = parentOf.get(node.item.id);
+            if (parent) {
+                parent.children.push(node);
+            } else {
+                roots.push(node);
+            }
+        });
+
+        HierarchyBuilder.finalise(roots, 0, compare);
+        return roots;
+    }
+
+    /**
+     * Get the IDs of every ancestor of an item, nearest first.
+     *
+     * @param item - The item to start from
+     * @param items - All items, used to resolve parent work item IDs
+     * @returns Ancestor item IDs (stops at a missing parent or a cycle)
+     */
+    static getAncestorIds<T extends HierarchyItem>(item: T, items: T[]): string[] {
+        const byWorkItemId = HierarchyBuilder.indexByWorkItemId(items);
+        const ancestors: string[] = [];
+        const visited = new Set<string>([item.id]);
+
+        let parent = HierarchyBuilder.getParent(item, byWorkItemId);
+        while (parent && !visited.has(parent.id)) {
+            ancestors.push(parent.id);
+            visited.add(parent.id);
+            parent = HierarchyBuilder.getParent(parent, byWorkItemId);
+        }
+        return ancestors;
+    }
+
+    private static indexByWorkItemId<T extends HierarchyItem>(items: T[]): Map<number, T> {
+        const byWorkItemId = new Map<number, T>();
+        items.forEach(item => {
+            if (!byWorkItemId.has(item.workItemId)) {
+                byWorkItemId.set(item.workItemId, item);
+            }
+        });
+        return byWorkItemId;
+    }
+
+    private static getParent<T extends HierarchyItem>(item: T, byWorkItemId: Map<number, T>): T | undefined {
+        if (!item.parentId) return undefined;
+        const parentWorkItemId = Number(item.parentId);
+        return isNaN(parentWorkItemId) ? undefined : byWorkItemId.get(parentWorkItemId);
+    }
+
+    private static findIncludedAncestor<T extends HierarchyItem>(
+        item: T,
+        byWorkItemId: Map<number, T>,
+        nodes: Map<string, TreeNode<T>>
+    ): TreeNode<T> | null {
+        const visited = new Set<string>([item.id]);
+        let parent = HierarchyBuilder.getParent(item, byWorkItemId);
+
+        while (parent && !visited.has(parent.id)) {
+            const node = nodes.get(parent.id);
+            if (node) return node;
+            visited.add(parent.id);
+            parent = HierarchyBuilder.getParent(parent, byWorkItemId);
+        }
+        return null;
+    }
+
+    /**
+     * Detach the first repeated node of any parent cycle so every node
+     * is reachable from a root.
+     */
+    private static breakCycles<T extends HierarchyItem>(
+        nodes: Map<string, TreeNode<T>>,
+        parentOf: Map<string, TreeNode<T> | null>
+    ): void {
+        const state = new Map<string, "visiting" | "done">();
+
+        nodes.forEach(start => {
+            const path: string[] = [];
+            let current: TreeNode<T> | null | undefined = start;
+
+            while (current && !state.has(current.item.id)) {
+                state.set(current.item.id, "visiting");
+                path.push(current.item.id);
+                current = parentOf.get(current.item.id);
+            }
+            if (current && state.get(current.item.id) === "visiting") {
+                parentOf.set(current.item.id, null);
+            }
+            path.forEach(id => state.set(id, "done"));
+        });
+    }
+
+    private static finalise<T extends HierarchyItem>(
+        nodes: TreeNode<T>[],
+        depth: number,
+        compare?: (a: T, b: T) => number
+    ): void {
+        if (compare) {
+            nodes.sort((a, b) => compare(a.item, b.item));
+        }
+        nodes.forEach(node => {
+            node.depth = depth;
+            HierarchyBuilder.finalise(node.children, depth + 1, compare);
+        });
+    }
+}
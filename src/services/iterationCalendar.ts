@@ -0,0 +1,103 @@
+/**
+ * IterationCalendar - Sprint calendar from the iteration roles
+ *
+ * Builds the list of iterations (sprints) from Iteration Calendar Path,
+ * Iteration Start and Iteration End values, which usually come from an
+ * Iterations table and so repeat once per work item row:
+ * - Repeated paths are merged (the first dated row wins)
+ * - Undated iterations, and ones ending before they start, are dropped
+ * - Iterations are sorted by start date
+ *
+ * Paths match a work item's Iteration Path ignoring case and surrounding
+ * backslashes, so items without dates can take their sprint's dates.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+import { PathTreeBuilder } from "./pathTreeBuilder";
+
+/**
+ * One iteration on the calendar.
+ */
+export interface Iteration {
+    /** Full iteration path */
+    path: string;
+    /** Display name: the last path segment */
+    name: string;
+    start: Date;
+    /** Last day of the iteration (inclusive) */
+    end: Date;
+    /** Position in start order, used to alternate the bands */
+    index: number;
+}
+
+/**
+ * An iteration as read from one data row.
+ */
+export interface IterationEntry {
+    path: string;
+    start: Date | null;
+    end: Date | null;
+}
+
+export class IterationCalendar {
+    /**
+     * Build the calendar from the rows' iteration values.
+     */
+    static build(entries: IterationEntry[]): Iteration[] {
+        const byKey = new Map<string, Iteration>();
+        entries.forEach(entry => {
+            const key = IterationCalendar.pathKey(entry.path);
+            if (!key || byKey.has(key) || !entry.start || !entry.end || entry.end < entry.start) return;
+            const segments = PathTreeBuilder.splitPath(entry.path);
+            byKey.set(key, {
+                path: segments.join("\\"),
+                name: segments[segments.length - 1],
+                start: entry.start,
+                end: entry.end,
+                index: 0
+            });
+        });
+
+        const iterations = Array.from(byKey.values())
+            .sort((a, b) => a.start.getTime() - b.start.getTime() || a.path.localeCompare(b.path));
+        iterations.forEach((iteration, index) => { iteration.index = index; });
+        return iterations;
+    }
+
+    /**
+     * Key used to match iteration paths: segments trimmed, lower case.
+     */
+    static pathKey(path: string | null | undefined): string {
+        return PathTreeBuilder.splitPath(path).join("\\").toLowerCase();
+    }
+
+    /**
+     * Index iterations by path key for findByPath().
+     */
+    static index(iterations: Iteration[]): Map<string, Iteration> {
+        return new Map(iterations.map(iteration => [IterationCalendar.pathKey(iteration.path), iteration]));
+    }
+
+    /**
+     * The iteration an item's Iteration Path refers to, if it is on the calendar.
+     */
+    static findByPath(index: Map<string, Iteration>, path: string): Iteration | undefined {
+        return index.get(IterationCalendar.pathKey(path));
+    }
+
+    /**
+     * The iteration a day (at midnight) falls in, start and end days
+     * included. When iterations overlap, the one that started last is
+     * returned.
+     */
+    static findCurrent(iterations: Iteration[], day: Date = DateService.today()): Iteration | undefined {
+        let current: Iteration | undefined;
+        for (const iteration of iterations) {
+            if (iteration.start <= day && day <= iteration.end) current = iteration;
+        }
+        return current;
+    }
+}
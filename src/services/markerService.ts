@@ -0,0 +1,136 @@
+/**
+ * MarkerService - Report-defined marker lines and labelled date ranges
+ *
+ * Markers come from a typed list such as:
+ * - "2026-03-02 PI Planning; 2026-06-30 Go-live"
+ * - "2026-12-01/2026-12-14 Code freeze 1" (an ISO 8601 interval, end inclusive)
+ * - "2026-08-14 Budget submission [#DC2626 dashed]"
+ *
+ * A single date is drawn as a vertical line and a range as a shaded band.
+ * The optional [...] at the end of an entry sets a hex colour and/or a
+ * line style (solid, dashed or dotted); otherwise the defaults are used.
+ * Entries are separated by semicolons or new lines; unrecognised entries
+ * are skipped.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+import { MARKER_LINE_STYLES, MarkerLineStyle } from "../constants";
+
+/**
+ * A marker line (one day) or labelled range.
+ */
+export interface Marker {
+    start: Date;
+    /** Last day of a range (inclusive); the start date for a line */
+    end: Date;
+    label: string;
+    /** Hex colour, or null for the default */
+    color: string | null;
+    /** Line style, or null for the default */
+    lineStyle: MarkerLineStyle | null;
+}
+
+// One list entry: a date, an optional end date after "/" or "..", an optional label, then optional [options]
+const ENTRY_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:\s*(?:\/|\.\.)\s*(\d{4}-\d{2}-\d{2}))?(?:\s+([^[]*?))?\s*(?:\[([^\]]*)\])?$/;
+
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export class MarkerService {
+    /**
+     * Parse a typed list of markers and ranges.
+     */
+    static parseList(text: string | null | undefined): Marker[] {
+        const markers: Marker[] = [];
+        String(text || "").split(/[;\n]+/).forEach(entry => {
+            const match = ENTRY_PATTERN.exec(entry.trim());
+            if (!match) return;
+            const options = (match[4] || "").split(/[\s,]+/);
+            const marker = MarkerService.createMarker(
+                DateService.parseIsoDate(match[1]),
+                match[2] ? DateService.parseIsoDate(match[2]) : null,
+                match[3] || "",
+                options.find(option => COLOR_PATTERN.test(option)),
+                options.find(option => MarkerService.parseLineStyle(option) !== null)
+            );
+            if (marker) markers.push(marker);
+        });
+        return markers;
+    }
+
+    /**
+     * Format markers as a typed list that parseList() reads back, e.g.
+     * "2026-03-02 PI Planning; 2026-12-01/2026-12-14 Code freeze [#DC2626 dotted]".
+     */
+    static formatList(markers: Marker[]): string {
+        return markers
+            .map(marker => {
+                const dates = MarkerService.isRange(marker)
+                    ? `${DateService.formatIsoDate(marker.start)}/${DateService.formatIsoDate(marker.end)}`
+                    : DateService.formatIsoDate(marker.start);
+                const options = [marker.color, marker.lineStyle].filter(option => option !== null);
+                return [dates, marker.label, options.length > 0 ? `[${options.join(" ")}]` : ""]
+                    .filter(part => part.length > 0)
+                    .join(" ");
+            })
+            .join("; ");
+    }
+
+    /**
+     * Build a marker from a start, optional end, label, colour and line
+     * style. Returns null when the start is missing; a reversed range is
+     * swapped, and an invalid colour or style falls back to the default.
+     */
+    static createMarker(start: Date | null, end: Date | null, label: string, color?: string, lineStyle?: string): Marker | null {
+        if (!start) return null;
+        const last = end || start;
+        return {
+            start: last < start ? last : start,
+            end: last < start ? start : last,
+            label: label.trim(),
+            color: MarkerService.parseColor(color),
+            lineStyle: MarkerService.parseLineStyle(lineStyle)
+        };
+    }
+
+    /**
+     * A "#RGB" or "#RRGGBB" colour, or null.
+     */
+    static parseColor(value: string | null | undefined): string | null {
+        const color = String(value || "").trim();
+        return COLOR_PATTERN.test(color) ? color : null;
+    }
+
+    /**
+     * A line style name (any case), or null.
+     */
+    static parseLineStyle(value: string | null | undefined): MarkerLineStyle | null {
+        const style = String(value || "").trim().toLowerCase();
+        return (MARKER_LINE_STYLES as readonly string[]).includes(style) ? style as MarkerLineStyle : null;
+    }
+
+    /**
+     * Whether a marker spans more than one day (drawn as a band).
+     */
+    static isRange(marker: Marker): boolean {
+        return marker.end > marker.start;
+    }
+
+    /**
+     * Sort markers by start date, dropping repeats of the same dates and
+     * label.
+     */
+    static normalize(markers: Marker[]): Marker[] {
+        const seen = new Set<string>();
+        return markers
+            .filter(marker => {
+                const key = `${marker.start.getTime()}|${marker.end.getTime()}|${marker.label}`;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime());
+    }
+}
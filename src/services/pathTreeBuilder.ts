@@ -0,0 +1,127 @@
+/**
+ * PathTreeBuilder - Area Path / Iteration Path group trees
+ *
+ * Groups items by a backslash-delimited classification path such as
+ * "Contoso\Platform\Identity" into a tree with one node per path segment,
+ * so nodes with the same name under different parents ("Team A\Backlog",
+ * "Team B\Backlog") stay separate:
+ * - Root depth skips leading segments (e.g. 1 drops the project name)
+ * - Max depth stops the tree at that many levels; deeper items are placed
+ *   on the deepest node shown
+ * - Nodes with no items of their own and a single child are merged into
+ *   that child ("Contoso\Platform")
+ *
+ * Items with an empty path are placed on a root node with an empty name.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+/**
+ * A node in the path tree.
+ */
+export interface PathNode<T> {
+    /** Display name: the segment, or the merged segments joined by "\" */
+    name: string;
+    /** Full path of the node, unique within the tree */
+    path: string;
+    /** Items whose path ends at this node */
+    items: T[];
+    /** Child nodes, sorted by name */
+    children: PathNode<T>[];
+    /** Items at this node and below, in data order */
+    allItems: T[];
+}
+
+/**
+ * Tree shape options.
+ */
+export interface PathTreeOptions {
+    /** Leading segments to skip (0 = start at the first segment) */
+    rootDepth: number;
+    /** Maximum levels to build (0 = no limit) */
+    maxDepth: number;
+}
+
+const PATH_SEPARATOR = "\\";
+
+export class PathTreeBuilder {
+    /**
+     * Split a path into its non-empty, trimmed segments.
+     */
+    static splitPath(path: string | null | undefined): string[] {
+        return String(path || "")
+            .split(PATH_SEPARATOR)
+            .map(segment => segment.trim())
+            .filter(segment => segment.length > 0);
+    }
+
+    /**
+     * Build the path tree.
+     *
+     * @param items - Items in data order
+     * @param getPath - Path of an item
+     * @param options - Root depth and maximum depth
+     * @returns Root nodes, sorted by name
+     */
+    static build<T>(items: T[], getPath: (item: T) => string, options: PathTreeOptions): PathNode<T>[] {
+        const rootDepth = Math.max(0, Math.floor(options.rootDepth) || 0);
+        const maxDepth = Math.max(0, Math.floor(options.maxDepth) || 0);
+        const root: PathNode<T> = { name: "", path: "", items: [], children: [], allItems: [] };
+        const nodes = new Map<string, PathNode<T>>();
+
+        items.forEach(item => {
+            const all = PathTreeBuilder.splitPath(getPath(item));
+            // Items above the root depth sit on a node named after their last segment
+            let segments = all.length > rootDepth ? all.slice(rootDepth) : all.slice(-1);
+            if (maxDepth > 0) segments = segments.slice(0, maxDepth);
+
+            let parent = root;
+            let path = "";
+            segments.forEach(segment => {
+                path = path ? `${path}${PATH_SEPARATOR}${segment}` : segment;
+                let node = nodes.get(path);
+                if (!node) {
+                    node = { name: segment, path, items: [], children: [], allItems: [] };
+                    nodes.set(path, node);
+                    parent.children.push(node);
+                }
+                parent = node;
+            });
+            if (parent === root) {
+                // Empty path: an unnamed root node
+                let unnamed = nodes.get("");
+                if (!unnamed) {
+                    unnamed = { name: "", path: "", items: [], children: [], allItems: [] };
+                    nodes.set("", unnamed);
+                    root.children.push(unnamed);
+                }
+                parent = unnamed;
+            }
+            parent.items.push(item);
+        });
+
+        return PathTreeBuilder.finalise(root.children, items);
+    }
+
+    /**
+     * Merge single-child empty nodes, sort siblings by name and collect
+     * each node's items.
+     */
+    private static finalise<T>(nodes: PathNode<T>[], order: T[]): PathNode<T>[] {
+        const rank = new Map<T, number>();
+        order.forEach((item, index) => rank.set(item, index));
+
+        const visit = (node: PathNode<T>): PathNode<T> => {
+            while (node.items.length === 0 && node.children.length === 1) {
+                const child = node.children[0];
+                node = { ...child, name: `${node.name}${PATH_SEPARATOR}${child.name}` };
+            }
+            node.children = node.children.map(visit).sort((a, b) => a.name.localeCompare(b.name));
+            node.allItems = [...node.items, ...node.children.flatMap(child => child.allItems)]
+                .sort((a, b) => (rank.get(a) || 0) - (rank.get(b) || 0));
+            return node;
+        };
+        return nodes.map(visit).sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * ProgressCalculator - Percent complete and roll-up
+ *
+ * Resolves how far along each work item is:
+ * - Items with a Percent Complete value use it (0-1 or 0-100, decided
+ *   for the whole column)
+ * - Parents without a value roll up their children's progress, weighted
+ *   by effort when the children have it, otherwise by duration in days
+ * - Other items are 0% or 100% depending on whether their state is a
+ *   completed state
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+import { HierarchyBuilder, TreeNode } from "./hierarchyBuilder";
+
+/**
+ * Minimum shape of an item the calculator can measure.
+ */
+export interface ProgressItem {
+    /** Unique item key */
+    id: string;
+    /** Work item ID that parent references resolve against */
+    workItemId: number;
+    parentId: string | null;
+    state: string;
+    startDate: Date | null;
+    targetDate: Date | null;
+    /** Explicit progress as a fraction (0-1), or null to derive it */
+    percentComplete: number | null;
+    /** Effort used to weight roll-up (e.g. story points), or null */
+    effort: number | null;
+}
+
+export class ProgressCalculator {
+    /**
+     * Compute progress for every item.
+     *
+     * @param items - All work items
+     * @param doneStates - States that count as complete (case-insensitive)
+     * @returns Progress as a fraction (0-1) by item ID
+     */
+    static calculate<T extends ProgressItem>(items: T[], doneStates: readonly string[]): Map<string, number> {
+        const done = new Set(doneStates.map(state => state.trim().toLowerCase()));
+        const progress = new Map<string, number>();
+
+        const visit = (node: TreeNode<T>): number => {
+            const item = node.item;
+            const childProgress = node.children.map(child => ({ item: child.item, value: visit(child) }));
+
+            let value: number;
+            if (item.percentComplete !== null) {
+                value = item.percentComplete;
+            } else if (childProgress.length > 0) {
+                value = ProgressCalculator.weightedAverage(childProgress);
+            } else {
+                value = done.has(item.state.trim().toLowerCase()) ? 1 : 0;
+            }
+            progress.set(item.id, value);
+            return value;
+        };
+        HierarchyBuilder.build(items).forEach(visit);
+
+        return progress;
+    }
+
+    /**
+     * Scale of a Percent Complete column: 100 when any plain number in it is
+     * above 1 (0-100 values), otherwise 1 (fractions). Deciding per column
+     * keeps 1 on a 0-100 scale at 1% rather than 100%.
+     *
+     * @param values - All values of the column
+     */
+    static getPercentScale(values: unknown[]): number {
+        return values.some(value => {
+            const text = String(value ?? "").trim();
+            return !text.endsWith("%") && parseFloat(text) > 1;
+        }) ? 100 : 1;
+    }
+
+    /**
+     * Parse a Percent Complete value on the column's scale (see
+     * getPercentScale); text such as "45%" is always a percentage.
+     *
+     * @param scale - 1 for fractions, 100 for percentages
+     * @returns Progress as a fraction clamped to 0-1, or null if empty or not a number
+     */
+    static parsePercent(value: unknown, scale: number = 1): number | null {
+        if (value === null || value === undefined || value === "") return null;
+        const text = String(value).trim();
+        const number = parseFloat(text);
+        if (!isFinite(number)) return null;
+        const fraction = number / (text.endsWith("%") ? 100 : scale);
+        return Math.min(1, Math.max(0, fraction));
+    }
+
+    /**
+     * Parse an effort value (story points, hours, ...).
+     *
+     * @returns Effort, or null if empty, not a number or negative
+     */
+    static parseEffort(value: unknown): number | null {
+        if (value === null || value === undefined || value === "") return null;
+        const number = Number(value);
+        return isFinite(number) && number >= 0 ? number : null;
+    }
+
+    // Weight by effort when any child has it, otherwise by duration (items
+    // without both dates count as one day); equal weights if all are zero
+    private static weightedAverage(children: Array<{ item: ProgressItem; value: number }>): number {
+        const useEffort = children.some(child => (child.item.effort || 0) > 0);
+        const weights = children.map(({ item }) => {
+            if (useEffort) return item.effort || 0;
+            return item.startDate && item.targetDate
+                ? Math.max(1, DateService.daysBetween(item.startDate, item.targetDate) + 1)
+                : 1;
+        });
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+        if (totalWeight === 0) {
+            return children.reduce((sum, child) => sum + child.value, 0) / children.length;
+        }
+        return children.reduce((sum, child, index) => sum + child.value * weights[index], 0) / totalWeight;
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * ScheduleAnalyzer - Critical path and total float
+ *
+ * Runs a backward pass over the predecessor graph using each item's
+ * scheduled startDate/targetDate to find its late finish, honouring the
+ * link type and lag of every FS/SS/FF/SF link. From that it derives:
+ * - Total float: slack (in calendar days) before the item would delay the
+ *   latest finish in the schedule
+ * - The critical path: items with no float and the links that bind them
+ *
+ * Dates are whole days; a bar occupies its start day through its target
+ * day inclusive. Items with only a target date are zero-length points at
+ * the end of that day. Items without dates, or inside a predecessor cycle,
+ * get no float.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+import { DependencyService, DependencyLink } from "./dependencyService";
+
+/**
+ * Minimum shape of an item the analyzer can schedule.
+ */
+export interface ScheduleItem {
+    /** Unique item key */
+    id: string;
+    /** Work item ID that predecessor links resolve against */
+    workItemId: number;
+    startDate: Date | null;
+    targetDate: Date | null;
+    predecessors: DependencyLink[];
+}
+
+/**
+ * Result of the analysis.
+ */
+export interface ScheduleAnalysis {
+    /** Total float in days by item ID (negative = behind schedule) */
+    totalFloat: Map<string, number>;
+    /** IDs of items on the critical path */
+    criticalItems: Set<string>;
+    /** Critical links, keyed by DependencyService.linkKey() */
+    criticalLinks: Set<string>;
+}
+
+interface ScheduleNode {
+    item: ScheduleItem;
+    /** Early start and (exclusive) finish as day numbers */
+    start: number;
+    finish: number;
+    lateFinish: number;
+    successors: Array<{ node: ScheduleNode; link: DependencyLink }>;
+    /** Latest finish allowed by each outgoing link, parallel to successors */
+    bounds: number[];
+}
+
+export class ScheduleAnalyzer {
+    /**
+     * Compute total float and the critical path.
+     *
+     * @param items - All work items
+     * @returns Float and critical flags for the dated items
+     */
+    static analyze<T extends ScheduleItem>(items: T[]): ScheduleAnalysis {
+        const result: ScheduleAnalysis = { totalFloat: new Map(), criticalItems: new Set(), criticalLinks: new Set() };
+        const nodes = ScheduleAnalyzer.buildGraph(items);
+        if (nodes.size === 0) return result;
+
+        // The schedule finishes when its last item finishes
+        let scheduleFinish = -Infinity;
+        nodes.forEach(node => { scheduleFinish = Math.max(scheduleFinish, node.finish); });
+
+        // Backward pass in reverse topological order: successors before predecessors
+        ScheduleAnalyzer.reverseTopologicalOrder(nodes).forEach(node => {
+            node.bounds = node.successors.map(({ node: succ, link }) =>
+                ScheduleAnalyzer.latestFinishFor(node, succ, link));
+            node.lateFinish = Math.min(scheduleFinish, ...node.bounds);
+            result.totalFloat.set(node.item.id, node.lateFinish - node.finish);
+        });
+
+        result.totalFloat.forEach((float, id) => {
+            if (float <= 0) result.criticalItems.add(id);
+        });
+
+        // A link is critical when it joins two critical items and is the one
+        // that sets the predecessor's late finish
+        nodes.forEach(node => {
+            if (!result.criticalItems.has(node.item.id)) return;
+            node.successors.forEach(({ node: succ, link }, index) => {
+                if (result.criticalItems.has(succ.item.id) && node.bounds[index] === node.lateFinish) {
+                    result.criticalLinks.add(DependencyService.linkKey(link.predecessorId, succ.item.workItemId, link.type));
+                }
+            });
+        });
+
+        return result;
+    }
+
+    private static buildGraph<T extends ScheduleItem>(items: T[]): Map<number, ScheduleNode> {
+        const dated = items.filter(item => item.targetDate !== null);
+        const nodes = new Map<number, ScheduleNode>();
+        if (dated.length === 0) return nodes;
+
+        const origin = dated[0].targetDate as Date;
+        dated.forEach(item => {
+            if (nodes.has(item.workItemId)) return;
+            const finish = DateService.daysBetween(origin, item.targetDate as Date) + 1;
+            const start = item.startDate ? Math.min(DateService.daysBetween(origin, item.startDate), finish) : finish;
+            nodes.set(item.workItemId, { item, start, finish, lateFinish: finish, successors: [], bounds: [] });
+        });
+
+        nodes.forEach(node => {
+            node.item.predecessors.forEach(link => {
+                const pred = nodes.get(link.predecessorId);
+                if (pred && pred !== node) pred.successors.push({ node, link });
+            });
+        });
+        return nodes;
+    }
+
+    /**
+     * Latest finish of a predecessor that still lets its successor keep its
+     * late dates under the link's type and lag.
+     */
+    private static latestFinishFor(pred: ScheduleNode, succ: ScheduleNode, link: DependencyLink): number {
+        const predDuration = pred.finish - pred.start;
+        const succLateStart = succ.lateFinish - (succ.finish - succ.start);
+        switch (link.type) {
+        case "SS": return succLateStart - link.lagDays + predDuration;
+        case "FF": return succ.lateFinish - link.lagDays;
+        case "SF": return succ.lateFinish - link.lagDays + predDuration;
+        default: return succLateStart - link.lagDays;
+        }
+    }
+
+    /**
+     * Order nodes so every successor comes before its predecessors. Nodes in
+     * (or leading into) a predecessor cycle can't be ordered and are left out.
+     */
+    private static reverseTopologicalOrder(nodes: Map<number, ScheduleNode>): ScheduleNode[] {
+        const remaining = new Map<ScheduleNode, number>();
+        nodes.forEach(node => remaining.set(node, node.successors.length));
+
+        const order: ScheduleNode[] = [];
+        const ready = [...nodes.values()].filter(node => node.successors.length === 0);
+        const predecessorsOf = new Map<ScheduleNode, ScheduleNode[]>();
+        nodes.forEach(node => node.successors.forEach(({ node: succ }) => {
+            if (!predecessorsOf.has(succ)) predecessorsOf.set(succ, []);
+            predecessorsOf.get(succ)!.push(node);
+        }));
+
+        while (ready.length > 0) {
+            const node = ready.shift() as ScheduleNode;
+            order.push(node);
+            (predecessorsOf.get(node) || []).forEach(pred => {
+                const count = (remaining.get(pred) || 0) - 1;
+                remaining.set(pred, count);
+                if (count === 0) ready.push(pred);
+            });
+        }
+        return order;
+    }
+}
@@ -0,0 +1,235 @@
+/**
+ * ScheduleValidator - Dependency and date-range conflict detection
+ *
+ * Checks the parsed work items for:
+ * - Link violations: a successor scheduled against its link, e.g. starting
+ *   on or before its finish-to-start predecessor's target date (lag included)
+ * - Children outside their parent's start/target date range
+ * - Predecessor cycles
+ *
+ * Links are checked on the same day boundaries as ScheduleAnalyzer: a bar
+ * runs from the start of its start day to the end of its target day, and
+ * an item with only a target date is a point at the end of that day. An FS
+ * successor must therefore start on or after target + 1 + lag.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+import { DependencyService, DependencyLink } from "./dependencyService";
+import { DependencyType } from "../constants";
+
+/**
+ * Minimum shape of an item the validator can check.
+ */
+export interface ValidationItem {
+    /** Unique item key */
+    id: string;
+    /** Work item ID that parent and predecessor references resolve against */
+    workItemId: number;
+    startDate: Date | null;
+    targetDate: Date | null;
+    parentId: string | null;
+    predecessors: DependencyLink[];
+}
+
+export type ValidationIssueKind = "linkViolation" | "outsideParent" | "cycle";
+
+/**
+ * One problem found by the validator. The display message is built from
+ * these details by the caller, so it can be localised.
+ */
+export interface ValidationIssue {
+    kind: ValidationIssueKind;
+    /** ID of the item the issue is reported against */
+    itemId: string;
+    /**
+     * Work item IDs involved: the predecessor (linkViolation), the parent
+     * (outsideParent) or the predecessors on the cycle (cycle)
+     */
+    relatedIds: number[];
+    /** Link type of a broken link */
+    linkType?: DependencyType;
+    /** Days by which a link is broken */
+    days?: number;
+}
+
+/**
+ * Result of a validation pass.
+ */
+export interface ValidationResult {
+    /** All issues, in data order */
+    issues: ValidationIssue[];
+    /** Issues by item ID */
+    itemIssues: Map<string, ValidationIssue[]>;
+    /** Offending predecessor links, keyed by DependencyService.linkKey() */
+    links: Set<string>;
+    /** IDs of children whose parent connector is in conflict */
+    parentLinks: Set<string>;
+}
+
+export class ScheduleValidator {
+    /**
+     * Run all checks.
+     *
+     * @param items - All work items
+     */
+    static validate<T extends ValidationItem>(items: T[]): ValidationResult {
+        const result: ValidationResult = { issues: [], itemIssues: new Map(), links: new Set(), parentLinks: new Set() };
+        const byWorkItemId = new Map<number, T>();
+        items.forEach(item => {
+            if (!byWorkItemId.has(item.workItemId)) byWorkItemId.set(item.workItemId, item);
+        });
+
+        const report = (item: T, details: Omit<ValidationIssue, "itemId">) => {
+            const issue: ValidationIssue = { itemId: item.id, ...details };
+            result.issues.push(issue);
+            if (!result.itemIssues.has(item.id)) result.itemIssues.set(item.id, []);
+            result.itemIssues.get(item.id)!.push(issue);
+        };
+
+        const cycleLinks = ScheduleValidator.findCycleLinks(items, byWorkItemId);
+
+        items.forEach(item => {
+            item.predecessors.forEach(link => {
+                const pred = byWorkItemId.get(link.predecessorId);
+                if (!pred) return;
+                const key = DependencyService.linkKey(link.predecessorId, item.workItemId, link.type);
+
+                if (cycleLinks.has(key)) {
+                    result.links.add(key);
+                    return;
+                }
+                const overlapDays = ScheduleValidator.getLinkViolation(pred, item, link);
+                if (overlapDays > 0) {
+                    result.links.add(key);
+                    report(item, { kind: "linkViolation", relatedIds: [pred.workItemId], linkType: link.type, days: overlapDays });
+                }
+            });
+
+            const parent = item.parentId ? byWorkItemId.get(Number(item.parentId)) : undefined;
+            if (parent && parent !== item && ScheduleValidator.isOutsideParent(item, parent)) {
+                result.parentLinks.add(item.id);
+                report(item, { kind: "outsideParent", relatedIds: [parent.workItemId] });
+            }
+        });
+
+        // Report each cycle member once, listing the predecessors in the cycle
+        const cycleMembers = new Map<T, number[]>();
+        items.forEach(item => item.predecessors.forEach(link => {
+            if (!cycleLinks.has(DependencyService.linkKey(link.predecessorId, item.workItemId, link.type))) return;
+            if (!cycleMembers.has(item)) cycleMembers.set(item, []);
+            cycleMembers.get(item)!.push(link.predecessorId);
+        }));
+        cycleMembers.forEach((predecessorIds, item) => {
+            report(item, { kind: "cycle", relatedIds: predecessorIds });
+        });
+
+        return result;
+    }
+
+    /**
+     * Days by which a successor breaks its link (0 = satisfied or undated).
+     */
+    private static getLinkViolation(pred: ValidationItem, succ: ValidationItem, link: DependencyLink): number {
+        const origin = pred.startDate || pred.targetDate;
+        if (!origin) return 0;
+        const anchors = DependencyService.getAnchors(link.type);
+        const predDay = ScheduleValidator.getAnchorDay(pred, anchors.from, origin);
+        const succDay = ScheduleValidator.getAnchorDay(succ, anchors.to, origin);
+        if (predDay === null || succDay === null) return 0;
+        return Math.max(0, Math.ceil(predDay + link.lagDays - succDay));
+    }
+
+    /**
+     * Day boundary of an item's start or end, counted from origin: a
+     * start is the beginning of its day, an end the end of the target day.
+     * Items without a start date start where they finish.
+     */
+    private static getAnchorDay(item: ValidationItem, anchor: "start" | "end", origin: Date): number | null {
+        const finish = item.targetDate ? DateService.daysBetween(origin, item.targetDate) + 1 : null;
+        if (anchor === "end" || !item.startDate) return finish;
+        const start = DateService.daysBetween(origin, item.startDate);
+        return finish === null ? start : Math.min(start, finish);
+    }
+
+    private static isOutsideParent(child: ValidationItem, parent: ValidationItem): boolean {
+        const parentStart = parent.startDate || parent.targetDate;
+        const parentEnd = parent.targetDate;
+        if (!parentStart || !parentEnd) return false;
+        const childStart = child.startDate || child.targetDate;
+        const childEnd = child.targetDate || child.startDate;
+        return (childStart !== null && childStart < parentStart) || (childEnd !== null && childEnd > parentEnd);
+    }
+
+    /**
+     * Find the predecessor links that lie on a cycle (Tarjan's strongly
+     * connected components; a link is on a cycle when both ends share a
+     * component of two or more items, or it links an item to itself).
+     */
+    private static findCycleLinks<T extends ValidationItem>(items: T[], byWorkItemId: Map<number, T>): Set<string> {
+        const index = new Map<T, number>();
+        const lowLink = new Map<T, number>();
+        const component = new Map<T, number>();
+        const stack: T[] = [];
+        const onStack = new Set<T>();
+        let counter = 0, componentCount = 0;
+
+        const predecessorsOf = (item: T): T[] => item.predecessors
+            .map(link => byWorkItemId.get(link.predecessorId))
+            .filter((pred): pred is T => pred !== undefined);
+
+        // Iterative depth-first search so long chains can't overflow the call stack
+        byWorkItemId.forEach(root => {
+            if (index.has(root)) return;
+            const work: Array<{ item: T; next: number }> = [{ item: root, next: 0 }];
+            index.set(root, counter); lowLink.set(root, counter); counter++;
+            stack.push(root); onStack.add(root);
+
+            while (work.length > 0) {
+                const frame = work[work.length - 1];
+                const preds = predecessorsOf(frame.item);
+                if (frame.next < preds.length) {
+                    const pred = preds[frame.next++];
+                    if (!index.has(pred)) {
+                        index.set(pred, counter); lowLink.set(pred, counter); counter++;
+                        stack.push(pred); onStack.add(pred);
+                        work.push({ item: pred, next: 0 });
+                    } else if (onStack.has(pred)) {
+                        lowLink.set(frame.item, Math.min(lowLink.get(frame.item)!, index.get(pred)!));
+                    }
+                    continue;
+                }
+
+                work.pop();
+                if (work.length > 0) {
+                    const parent = work[work.length - 1].item;
+                    lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.item)!));
+                }
+                if (lowLink.get(frame.item) === index.get(frame.item)) {
+                    let member: T | undefined;
+                    do {
+                        member = stack.pop() as T;
+                        onStack.delete(member);
+                        component.set(member, componentCount);
+                    } while (member !== frame.item);
+                    componentCount++;
+                }
+            }
+        });
+
+        const componentSize = new Map<number, number>();
+        component.forEach(id => componentSize.set(id, (componentSize.get(id) || 0) + 1));
+
+        const cycleLinks = new Set<string>();
+        items.forEach(item => item.predecessors.forEach(link => {
+            const pred = byWorkItemId.get(link.predecessorId);
+            if (!pred) return;
+            const sameComponent = component.get(pred) === component.get(item) && component.has(item);
+            const onCycle = pred === item || (sameComponent && (componentSize.get(component.get(item)!) || 0) > 1);
+            if (onCycle) cycleLinks.add(DependencyService.linkKey(link.predecessorId, item.workItemId, link.type));
+        }));
+        return cycleLinks;
+    }
+}
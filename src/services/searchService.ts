@@ -0,0 +1,75 @@
+/**
+ * SearchService - Work item search matching
+ *
+ * Matches a search query against the fields people look items up by:
+ * - Work item ID (a leading "#" is ignored, e.g. "#12345")
+ * - Title
+ * - Assigned To
+ * - Tags
+ *
+ * Matching is a case-insensitive substring search. The matched ranges of a
+ * field can be returned so the caller can highlight them.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+/**
+ * Minimum shape of a searchable item.
+ */
+export interface SearchItem {
+    workItemId: number;
+    title: string;
+    assignedTo: string;
+    tags: string;
+}
+
+/**
+ * A matched range of text, end exclusive.
+ */
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+export class SearchService {
+    /**
+     * Normalise a query for matching: trimmed, lower case, without a
+     * leading "#".
+     *
+     * @returns The normalised query, or "" when there is nothing to search for
+     */
+    static normalizeQuery(query: string): string {
+        return (query || "").trim().replace(/^#\s*/, "").toLowerCase();
+    }
+
+    /**
+     * Whether an item matches a normalised query. Standalone milestones
+     * (negative IDs) only match on their text fields.
+     */
+    static matches(item: SearchItem, query: string): boolean {
+        if (!query) return false;
+        if (item.workItemId > 0 && String(item.workItemId).includes(query)) return true;
+        return [item.title, item.assignedTo, item.tags]
+            .some(text => (text || "").toLowerCase().includes(query));
+    }
+
+    /**
+     * Non-overlapping ranges of a text that match a normalised query.
+     * Returns no ranges when lower-casing changes the text's length
+     * (the ranges would not line up with the original text).
+     */
+    static findRanges(text: string, query: string): TextRange[] {
+        const ranges: TextRange[] = [];
+        if (!query || !text) return ranges;
+        const lower = text.toLowerCase();
+        if (lower.length !== text.length) return ranges;
+
+        let index = lower.indexOf(query);
+        while (index !== -1) {
+            ranges.push({ start: index, end: index + query.length });
+            index = lower.indexOf(query, index + query.length);
+        }
+        return ranges;
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ * TagService - Azure DevOps tag parsing and filtering
+ *
+ * Azure DevOps stores an item's tags as one string separated by semicolons,
+ * e.g. "Risk; Customer". This service:
+ * - Splits that string into tags (trimmed, duplicates dropped ignoring case)
+ * - Picks a stable chip colour for each tag
+ * - Applies an include / exclude tag filter to an item's tags
+ *
+ * Tags compare without regard to case, as they do in Azure DevOps.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { TAG_COLOR_PALETTE, TAG_SEPARATOR } from "../constants";
+
+/**
+ * Tag filter state. Both lists hold tag keys (see TagService.key).
+ */
+export interface TagFilter {
+    /** Show only items carrying at least one of these tags (empty = no restriction) */
+    include: string[];
+    /** Hide items carrying any of these tags */
+    exclude: string[];
+}
+
+export class TagService {
+    /**
+     * Split a tags value into its tags, in the order given.
+     */
+    static parse(value: string | null | undefined): string[] {
+        const tags: string[] = [];
+        const seen = new Set<string>();
+        String(value || "").split(TAG_SEPARATOR).forEach(part => {
+            const tag = part.trim();
+            const key = TagService.key(tag);
+            if (!tag || seen.has(key)) return;
+            seen.add(key);
+            tags.push(tag);
+        });
+        return tags;
+    }
+
+    /**
+     * Case-insensitive key used to compare tags.
+     */
+    static key(tag: string): string {
+        return tag.trim().toLowerCase();
+    }
+
+    /**
+     * Distinct tags across items, sorted by name. The first spelling seen
+     * of each tag is used.
+     */
+    static collect(tagLists: string[][]): string[] {
+        const tags = new Map<string, string>();
+        tagLists.forEach(list => list.forEach(tag => {
+            const key = TagService.key(tag);
+            if (!tags.has(key)) tags.set(key, tag);
+        }));
+        return Array.from(tags.values()).sort((a, b) => a.localeCompare(b));
+    }
+
+    /**
+     * Chip colour for a tag, from a hash of its key so it doesn't change
+     * as other tags come and go.
+     */
+    static getColor(tag: string): string {
+        const key = TagService.key(tag);
+        let hash = 0;
+        for (let i = 0; i < key.length; i++) {
+            hash = (hash * 31 + key.charCodeAt(i)) | 0;
+        }
+        return TAG_COLOR_PALETTE[Math.abs(hash) % TAG_COLOR_PALETTE.length];
+    }
+
+    /**
+     * Whether tags pass a filter: none excluded, and at least one included
+     * when the include list isn't empty.
+     */
+    static matchesFilter(tags: string[], filter: TagFilter): boolean {
+        if (filter.include.length === 0 && filter.exclude.length === 0) return true;
+        const keys = new Set(tags.map(tag => TagService.key(tag)));
+        if (filter.exclude.some(key => keys.has(key))) return false;
+        return filter.include.length === 0 || filter.include.some(key => keys.has(key));
+    }
+
+    /**
+     * Whether a filter restricts anything.
+     */
+    static isActive(filter: TagFilter): boolean {
+        return filter.include.length > 0 || filter.exclude.length > 0;
+    }
+}
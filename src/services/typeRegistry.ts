@@ -0,0 +1,222 @@
+/**
+ * TypeRegistry - Work item type configuration
+ *
+ * Discovers the distinct work item types present in the data and resolves
+ * the display settings for each one:
+ * - Colour (built-in types keep their default colours, other types are
+ *   assigned colours from a palette)
+ * - Row and bar height (per-type override or the row density default)
+ * - Render shape (bar or diamond)
+ * - Visibility
+ *
+ * Per-type settings are saved as JSON keyed by type name, so they follow
+ * the type rather than a data row.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import {
+    WORK_ITEM_TYPES,
+    ROW_HEIGHTS,
+    BAR_HEIGHTS,
+    TYPE_COLOR_PALETTE,
+    TYPE_SHAPES,
+    RowDensity,
+    TypeShape,
+} from "../constants";
+
+/**
+ * Resolved display settings for one work item type.
+ */
+export interface TypeConfig {
+    /** Type name as it appears in the data (e.g. "User Story") */
+    name: string;
+    /** Bar / indicator colour */
+    color: string;
+    /** Row height override in pixels (null = row density default) */
+    rowHeight: number | null;
+    /** Bar height override in pixels (null = row density default) */
+    barHeight: number | null;
+    /** Shape drawn on the timeline */
+    shape: TypeShape;
+    /** Whether items of this type are shown */
+    visible: boolean;
+}
+
+/**
+ * Per-type settings from the format pane. Unset properties keep the default.
+ */
+export type TypeOverrides = Partial<Omit<TypeConfig, "name">>;
+
+export class TypeRegistry {
+    private configs: Map<string, TypeConfig> = new Map();
+    private order: string[];
+
+    /**
+     * @param typeNames - Work item types found in the data (duplicates allowed)
+     * @param overrides - Format pane settings keyed by type name
+     * @param baseColors - Default colours for the built-in types, keyed by type name
+     */
+    constructor(
+        typeNames: string[],
+        overrides: Map<string, TypeOverrides> = new Map(),
+        baseColors: Record<string, string> = {}
+    ) {
+        this.order = TypeRegistry.sortTypeNames([...new Set(typeNames)]);
+
+        let paletteIndex = 0;
+        this.order.forEach(name => {
+            const color = baseColors[name]
+                || TYPE_COLOR_PALETTE[paletteIndex++ % TYPE_COLOR_PALETTE.length];
+            const defaults: TypeConfig = {
+                name,
+                color,
+                rowHeight: null,
+                barHeight: null,
+                shape: name === "Milestone" ? "diamond" : "bar",
+                visible: true,
+            };
+            const override = overrides.get(name) || {};
+            this.configs.set(name, {
+                name,
+                color: override.color || defaults.color,
+                rowHeight: TypeRegistry.validHeight(override.rowHeight),
+                barHeight: TypeRegistry.validHeight(override.barHeight),
+                shape: override.shape || defaults.shape,
+                visible: override.visible !== false,
+            });
+        });
+    }
+
+    /**
+     * All discovered types in display order (built-in types first in
+     * hierarchy order, then the rest alphabetically).
+     */
+    get types(): TypeConfig[] {
+        return this.order.map(name => this.configs.get(name) as TypeConfig);
+    }
+
+    /**
+     * Get the settings for a type. Types not seen in the data get
+     * the Feature settings, matching the previous fallback behaviour.
+     */
+    get(type: string): TypeConfig {
+        return this.configs.get(type)
+            || this.configs.get("Feature")
+            || { name: type, color: TYPE_COLOR_PALETTE[0], rowHeight: null, barHeight: null, shape: "bar", visible: true };
+    }
+
+    getColor(type: string): string {
+        return this.get(type).color;
+    }
+
+    getShape(type: string): TypeShape {
+        return this.get(type).shape;
+    }
+
+    isVisible(type: string): boolean {
+        return this.get(type).visible;
+    }
+
+    /**
+     * Sort rank of a type among siblings (display order, unknown types last).
+     */
+    getRank(type: string): number {
+        const rank = this.order.indexOf(type);
+        return rank === -1 ? this.order.length : rank;
+    }
+
+    /**
+     * Row height for a type (or "GroupHeader") at the given density.
+     */
+    getRowHeight(type: string, density: RowDensity): number {
+        const config = this.configs.get(type);
+        if (config?.rowHeight) return config.rowHeight;
+        const heights = ROW_HEIGHTS[density] || ROW_HEIGHTS.normal;
+        return heights[type] || heights[this.getDefaultHeightKey(type)];
+    }
+
+    /**
+     * Bar height (or diamond size) for a type at the given density.
+     */
+    getBarHeight(type: string, density: RowDensity): number {
+        const config = this.configs.get(type);
+        if (config?.barHeight) return config.barHeight;
+        const heights = BAR_HEIGHTS[density] || BAR_HEIGHTS.normal;
+        return heights[type] || heights[this.getDefaultHeightKey(type)];
+    }
+
+    /**
+     * Read saved per-type settings, e.g. '{"Epic":{"color":"#4F46E5","visible":false}}'.
+     * Invalid JSON or values are ignored.
+     */
+    static parseOverrides(json: string | null | undefined): Map<string, TypeOverrides> {
+        const overrides = new Map<string, TypeOverrides>();
+        let saved: unknown;
+        try {
+            saved = JSON.parse(String(json || "{}"));
+        } catch {
+            return overrides;
+        }
+        if (!saved || typeof saved !== "object" || Array.isArray(saved)) return overrides;
+
+        Object.keys(saved).forEach(name => {
+            const value = (saved as Record<string, unknown>)[name];
+            if (!value || typeof value !== "object") return;
+            const override = TypeRegistry.validOverrides(value as Record<string, unknown>);
+            if (Object.keys(override).length > 0) overrides.set(name, override);
+        });
+        return overrides;
+    }
+
+    /**
+     * Per-type settings as JSON for parseOverrides().
+     */
+    static formatOverrides(overrides: Map<string, TypeOverrides>): string {
+        const saved: Record<string, TypeOverrides> = {};
+        overrides.forEach((override, name) => {
+            const valid = TypeRegistry.validOverrides(override);
+            if (Object.keys(valid).length > 0) saved[name] = valid;
+        });
+        return JSON.stringify(saved);
+    }
+
+    /**
+     * The recognised settings of an override, e.g. one read from JSON.
+     */
+    static validOverrides(value: Record<string, unknown>): TypeOverrides {
+        const override: TypeOverrides = {};
+        if (typeof value.color === "string" && value.color) override.color = value.color;
+        const rowHeight = TypeRegistry.validHeight(value.rowHeight as number);
+        if (rowHeight !== null) override.rowHeight = rowHeight;
+        const barHeight = TypeRegistry.validHeight(value.barHeight as number);
+        if (barHeight !== null) override.barHeight = barHeight;
+        if ((TYPE_SHAPES as readonly unknown[]).includes(value.shape)) override.shape = value.shape as TypeShape;
+        if (typeof value.visible === "boolean") override.visible = value.visible;
+        return override;
+    }
+
+    // Types without their own density defaults size like milestones when
+    // drawn as diamonds and like features when drawn as bars
+    private getDefaultHeightKey(type: string): string {
+        return this.getShape(type) === "diamond" ? "Milestone" : "Feature";
+    }
+
+    private static validHeight(value: number | null | undefined): number | null {
+        return typeof value === "number" && isFinite(value) && value > 0 ? value : null;
+    }
+
+    private static sortTypeNames(names: string[]): string[] {
+        const builtIn = WORK_ITEM_TYPES as readonly string[];
+        return names.sort((a, b) => {
+            const rankA = builtIn.indexOf(a), rankB = builtIn.indexOf(b);
+            if (rankA !== -1 || rankB !== -1) {
+                if (rankA === -1) return 1;
+                if (rankB === -1) return -1;
+                return rankA - rankB;
+            }
+            return a.localeCompare(b);
+        });
+    }
+}
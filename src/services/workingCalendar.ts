@@ -0,0 +1,130 @@
+/**
+ * WorkingCalendar - Weekends, public holidays and shutdown periods
+ *
+ * Reads non-working periods (public holidays, change freezes, office
+ * shutdowns) from a typed list such as:
+ * - "2025-12-25 Christmas Day; 2025-12-26 Boxing Day"
+ * - "2025-12-22/2026-01-02 Shutdown" (an ISO 8601 interval, end inclusive)
+ * - "2026-03-30..2026-04-10 Change freeze"
+ *
+ * Entries are separated by semicolons or new lines; unrecognised entries
+ * are skipped. Working days exclude the weekend (Saturday and Sunday
+ * unless the locale's weekend is given) and these periods.
+ *
+ * This is a pure calculation class with no DOM or D3 dependencies,
+ * making it easily testable.
+ */
+
+import { DateService } from "./dateService";
+
+/**
+ * A day or range of days off.
+ */
+export interface NonWorkingPeriod {
+    start: Date;
+    /** Last day off (inclusive) */
+    end: Date;
+    /** Name, e.g. "Christmas Day" (may be empty) */
+    label: string;
+}
+
+// One list entry: a date, an optional end date after "/" or "..", then an optional label
+const ENTRY_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:\s*(?:\/|\.\.)\s*(\d{4}-\d{2}-\d{2}))?(?:\s+(.*))?$/;
+
+export class WorkingCalendar {
+    /**
+     * Parse a typed list of holidays and shutdown periods.
+     */
+    static parseList(text: string | null | undefined): NonWorkingPeriod[] {
+        const periods: NonWorkingPeriod[] = [];
+        String(text || "").split(/[;\n]+/).forEach(entry => {
+            const match = ENTRY_PATTERN.exec(entry.trim());
+            if (!match) return;
+            const period = WorkingCalendar.createPeriod(
+                DateService.parseIsoDate(match[1]),
+                match[2] ? DateService.parseIsoDate(match[2]) : null,
+                match[3] || ""
+            );
+            if (period) periods.push(period);
+        });
+        return periods;
+    }
+
+    /**
+     * Format periods as a typed list that parseList() reads back, e.g.
+     * "2025-12-25 Christmas Day; 2025-12-22/2026-01-02 Shutdown".
+     */
+    static formatList(periods: NonWorkingPeriod[]): string {
+        return periods
+            .map(period => {
+                const dates = period.end > period.start
+                    ? `${DateService.formatIsoDate(period.start)}/${DateService.formatIsoDate(period.end)}`
+                    : DateService.formatIsoDate(period.start);
+                return period.label ? `${dates} ${period.label}` : dates;
+            })
+            .join("; ");
+    }
+
+    /**
+     * Build a period from a start, optional end and label. Returns null
+     * when the start is missing; a reversed range is swapped.
+     */
+    static createPeriod(start: Date | null, end: Date | null, label: string): NonWorkingPeriod | null {
+        if (!start) return null;
+        const last = end || start;
+        return last < start
+            ? { start: last, end: start, label: label.trim() }
+            : { start, end: last, label: label.trim() };
+    }
+
+    /**
+     * Sort periods by start date, dropping repeats of the same dates and
+     * label.
+     */
+    static normalize(periods: NonWorkingPeriod[]): NonWorkingPeriod[] {
+        const seen = new Set<string>();
+        return periods
+            .filter(period => {
+                const key = `${period.start.getTime()}|${period.end.getTime()}|${period.label}`;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime());
+    }
+
+    /**
+     * Times (midnight) of every day in the periods, for isWorkingDay().
+     */
+    static getDaysOff(periods: NonWorkingPeriod[]): Set<number> {
+        const days = new Set<number>();
+        periods.forEach(period => {
+            for (let day = period.start; day <= period.end; day = DateService.addDays(day, 1)) {
+                days.add(day.getTime());
+            }
+        });
+        return days;
+    }
+
+    /**
+     * Whether a day (at midnight) is outside the weekend and the days off.
+     *
+     * @param weekend - Weekend days (0 = Sunday … 6 = Saturday)
+     */
+    static isWorkingDay(day: Date, daysOff: Set<number>, weekend?: readonly number[]): boolean {
+        return !DateService.isWeekend(day, weekend) && !daysOff.has(day.getTime());
+    }
+
+    /**
+     * Working days from start to end, both included.
+     *
+     * @param weekend - Weekend days (0 = Sunday … 6 = Saturday)
+     */
+    static countWorkingDays(start: Date, end: Date, daysOff: Set<number>, weekend?: readonly number[]): number {
+        let count = 0;
+        for (let day = start; day <= end; day = DateService.addDays(day, 1)) {
+            if (WorkingCalendar.isWorkingDay(day, daysOff, weekend)) count++;
+        }
+        return count;
+    }
+}
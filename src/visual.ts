@@ -6,11 +6,11 @@
  *  - Rendering Events API (required for certification)
  *  - Context Menu support
  *  - Safe DOM manipulation (no innerHTML)
- *  - Localization ready
+ *  - Localized UI strings, dates and week numbering; right-to-left layout
  *  - No external service calls
  *  - Dependency line rendering
  *  - Flexible grouping options
- *  - PDF export with PSPF security classification
+ *  - PDF export with PSPF security classification banners
  */
 
 "use strict";
@@ -21,35 +21,77 @@ import VisualUpdateOptions = powerbi.extensibility.visual.VisualUpdateOptions;
 import IVisual = powerbi.extensibility.visual.IVisual;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
 import DataView = powerbi.DataView;
+import DataViewObject = powerbi.DataViewObject;
+import DataViewPropertyValue = powerbi.DataViewPropertyValue;
 import ISelectionManager = powerbi.extensibility.ISelectionManager;
+import ILocalizationManager = powerbi.extensibility.ILocalizationManager;
 import ISelectionId = powerbi.visuals.ISelectionId;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import FormattingModel = powerbi.visuals.FormattingModel;
+import FormattingGroup = powerbi.visuals.FormattingGroup;
+import FormattingDescriptor = powerbi.visuals.FormattingDescriptor;
+import FormattingCard = powerbi.visuals.FormattingCard;
+import FormattingSlice = powerbi.visuals.FormattingSlice;
 
 import * as d3 from "d3";
 
 import "./../style/visual.less";
 
 // Import extracted modules
-import { DateService } from "./services/dateService";
-import { CoordinateEngine } from "./services/coordinateEngine";
+import { DateService, WeekInfo } from "./services/dateService";
+import { CoordinateEngine, DateWindow } from "./services/coordinateEngine";
+import { HierarchyBuilder, TreeNode } from "./services/hierarchyBuilder";
+import { TypeRegistry, TypeOverrides } from "./services/typeRegistry";
+import { DependencyService, DependencyLink } from "./services/dependencyService";
+import { ScheduleAnalyzer, ScheduleAnalysis } from "./services/scheduleAnalyzer";
+import { ScheduleValidator, ValidationResult, ValidationIssue } from "./services/scheduleValidator";
+import { ProgressCalculator } from "./services/progressCalculator";
+import { BaselineService, SlipSummary } from "./services/baselineService";
+import { SearchService } from "./services/searchService";
+import { PathTreeBuilder, PathNode } from "./services/pathTreeBuilder";
+import { TagService, TagFilter } from "./services/tagService";
+import { IterationCalendar, Iteration, IterationEntry } from "./services/iterationCalendar";
+import { FiscalCalendar, FiscalCalendarOptions } from "./services/fiscalCalendar";
+import { WorkingCalendar, NonWorkingPeriod } from "./services/workingCalendar";
+import { MarkerService, Marker } from "./services/markerService";
+import { ClassificationService, ClassificationMarking } from "./services/classificationService";
 import {
     VISUAL_VERSION,
-    WORK_ITEM_TYPES,
     LAYOUT,
     LOGO_SIZES,
-    ROW_HEIGHTS,
-    BAR_HEIGHTS,
     DAY_WIDTHS,
     TIME_SCALES,
+    TIME_SCALE_LABEL_KEYS,
     ZOOM_LEVELS,
     ROW_DENSITIES,
+    ROW_DENSITY_LABEL_KEYS,
     MILESTONE_LABEL_POSITIONS,
+    MILESTONE_LABEL_POSITION_LABEL_KEYS,
+    GROUP_BY_OPTIONS,
+    GROUP_BY_NONE,
+    TAG_SEPARATOR,
+    FISCAL_PATTERNS,
+    SORT_BY_OPTIONS,
+    DEPENDENCY_TYPES,
+    DEPENDENCY_TYPE_LABEL_KEYS,
+    DEPENDENCY_TYPE_DASHES,
+    TYPE_SHAPES,
+    TYPE_SHAPE_LABEL_KEYS,
     TIMELINE_PADDING,
+    DATA_ROW_LIMIT,
     OCCLUSION,
     DEPENDENCY_LINES,
     DEFAULT_COLORS,
+    DEFAULT_DONE_STATES,
     TimeScale,
+    ZoomLevel,
     RowDensity,
     MilestoneLabelPosition,
+    TypeShape,
+    FiscalPattern,
+    MarkerLineStyle,
+    DependencyType,
+    SortByOption,
     LogoSize,
 } from "./constants";
 
@@ -62,13 +104,27 @@ interface WorkItem {
     state: string;
     startDate: Date | null;
     targetDate: Date | null;
+    baselineStartDate: Date | null;
+    baselineTargetDate: Date | null;
     parentId: string | null;
-    predecessorId: string | null;
+    predecessors: DependencyLink[];
     areaPath: string;
     iterationPath: string;
+    /** True when the dates were taken from the item's iteration */
+    datesFromIteration: boolean;
     assignedTo: string;
     priority: number;
     tags: string;
+    /** Tags split from the tags value */
+    tagList: string[];
+    /** Percent complete as a fraction (0-1), or null to derive it */
+    percentComplete: number | null;
+    /** Effort used to weight progress roll-up, or null */
+    effort: number | null;
+    /** Formatted values of the measures in the Tooltips field well */
+    tooltipValues: VisualTooltipDataItem[];
+    /** False when another visual cross-highlights and this item is not included */
+    highlighted: boolean;
     selectionId: ISelectionId | null;
 }
 
@@ -83,9 +139,47 @@ interface VisualSettings {
     showLogo: boolean;
     // Organization settings
     groupBy: string;
+    // Nested swimlanes within the primary grouping ("none" = no further level)
+    secondaryGroupBy: string;
+    tertiaryGroupBy: string;
+    // Area / Iteration Path trees: leading segments skipped and levels shown (0 = all)
+    pathRootDepth: number;
+    pathMaxDepth: number;
     showHierarchy: boolean;
     defaultExpanded: boolean;
-    // Colors
+    sortBy: SortByOption;
+    // Fiscal calendar: first month of the year (0 = January), months or a
+    // retail week pattern, and whether FY numbers name the end or start year
+    fiscalStartMonth: number;
+    fiscalPattern: FiscalPattern;
+    fiscalYearLabel: "end" | "start";
+    // Iteration calendar: sprint header row, alternate sprint shading, current
+    // sprint highlight and dates for undated items
+    showSprintHeader: boolean;
+    showSprintBands: boolean;
+    highlightCurrentSprint: boolean;
+    fillDatesFromIteration: boolean;
+    // Tags: chips next to titles, the filter bar and the tags it includes / excludes
+    showTagChips: boolean;
+    showTagFilter: boolean;
+    includeTags: string[];
+    excludeTags: string[];
+    // Working days: weekend shading, holiday / shutdown bands, the typed list
+    // of holidays and the working days row in tooltips
+    shadeWeekends: boolean;
+    showHolidays: boolean;
+    holidayList: NonWorkingPeriod[];
+    showWorkingDays: boolean;
+    // Markers: the typed list, and the colours and line style of markers
+    // that don't set their own
+    showMarkers: boolean;
+    markerList: Marker[];
+    markerColor: string;
+    markerRangeColor: string;
+    markerLineStyle: MarkerLineStyle;
+    // Type shown in the format pane's Work Item Types card ("" = the first type)
+    editedType: string;
+    // Colors (defaults for the built-in types; per-type colours come from workItemTypes)
     epicColor: string;
     releaseColor: string;
     milestoneColor: string;
@@ -99,19 +193,28 @@ interface VisualSettings {
     showParentChild: boolean;
     showPredecessors: boolean;
     dependencyLineColor: string;
-    // Level display settings
-    showEpics: boolean;
-    showReleases: boolean;
-    showFeatures: boolean;
-    showMilestones: boolean;
+    // Critical path settings
+    showCriticalPath: boolean;
+    criticalPathColor: string;
+    filterByFloat: boolean;
+    maxFloatDays: number;
+    // Baseline settings
+    showBaseline: boolean;
+    // Progress settings
+    showProgress: boolean;
+    doneStates: string[];
     // Time scale settings
     timeScale: "daily" | "weekly" | "monthly" | "annual" | "multiYear";
     zoomLevel: number;
     // Print-friendly mode (expands all items for browser print-to-PDF)
     pdfMode: boolean;
+    // PSPF classification banners (null = no banners)
+    classification: ClassificationMarking | null;
 }
 
 interface RowData {
+    /** Unique key for the row (work item ID or group key), used by the virtual scroller */
+    key: string;
     type: string;
     data?: WorkItem;
     name?: string;
@@ -121,25 +224,154 @@ interface RowData {
     isParent?: boolean;
     childCount?: number;
     level?: number;
+    /** Slip of the items under a group header or parent row */
+    slip?: SlipSummary;
+    /** Earliest and latest dates of the items under a group header */
+    span?: { start: Date; end: Date };
 }
 
-// Local alias for backward compatibility
-const TYPES = [...WORK_ITEM_TYPES];
+// A swimlane: one value of a grouping field, or one node of a path tree
+interface GroupNode {
+    name: string;
+    /** Identifies the group among its siblings (the full path for path trees) */
+    keyPart: string;
+    /** Items directly in this group (not in a nested path node) */
+    items: WorkItem[];
+    /** All items in the group, including nested path nodes */
+    allItems: WorkItem[];
+    children: GroupNode[];
+}
+
+// Steps through calendar periods for the time-axis header and grid renderers
+interface PeriodStepper {
+    /** First day of the period containing the date */
+    start: (date: Date) => Date;
+    /** First day of the following period */
+    next: (start: Date) => Date;
+}
+
+// Period steppers for a fiscal calendar; weeks start on its week start day
+// (0 = Sunday … 6 = Saturday) and months, quarters and years are fiscal
+function createPeriods(fiscal: FiscalCalendarOptions): { [period: string]: PeriodStepper } {
+    return {
+        day: {
+            start: date => new Date(date),
+            next: start => DateService.addDays(start, 1)
+        },
+        week: {
+            start: date => DateService.getWeekStart(date, fiscal.weekStartDay),
+            next: start => DateService.addDays(start, 7)
+        },
+        month: {
+            start: date => FiscalCalendar.getMonthStart(date, fiscal),
+            next: start => FiscalCalendar.getNextMonthStart(start, fiscal)
+        },
+        quarter: {
+            start: date => FiscalCalendar.getQuarterStart(date, fiscal),
+            next: start => FiscalCalendar.getNextQuarterStart(start, fiscal)
+        },
+        year: {
+            start: date => FiscalCalendar.getYearStart(date, fiscal),
+            next: start => FiscalCalendar.getNextYearStart(start, fiscal)
+        }
+    };
+}
+
+// Keyboard grid columns: the row label in the left panel, or the row's bar/milestone
+type GridColumn = "label" | "item";
+
+// A format pane setting: a capabilities property of the card's object and its
+// current value. Labels use the Object_<Object>_<Property> resource keys, and
+// enumerations use an auto dropdown, which lists the capabilities values.
+interface FormatPaneSetting {
+    property: string;
+    control: "ToggleSwitch" | "TextInput" | "NumUpDown" | "ColorPicker" | "Dropdown";
+    value: boolean | string | number;
+}
+
+// In-visual popover panels opened from the toolbar
+type ToolbarPanel = "groupBy" | "colours" | "settings" | "issues" | "expand";
+
+// Colour settings used for the built-in types when no per-type colour is set
+const BUILT_IN_COLOR_KEYS: { [type: string]: "epicColor" | "releaseColor" | "milestoneColor" | "featureColor" } = {
+    Epic: "epicColor",
+    Release: "releaseColor",
+    Milestone: "milestoneColor",
+    Feature: "featureColor",
+};
 
 export class RoadmapVisual implements IVisual {
     private host: IVisualHost;
+    private rootElement: HTMLElement;
+
+    // Report locale: UI strings, date formats, week conventions and direction
+    private localizationManager: ILocalizationManager;
+    private locale: string;
+    private weekInfo: WeekInfo;
+    // Calendar periods of the fiscal calendar setting (see createPeriods)
+    private fiscal: FiscalCalendarOptions;
+    private periods: { [period: string]: PeriodStepper };
+    private isRtl: boolean;
     private container: d3.Selection<HTMLDivElement, unknown, null, undefined>;
     private workItems: WorkItem[] = [];
+    // Sprints from the iteration calendar roles, in start order
+    private iterations: Iteration[] = [];
+    // Holidays and shutdowns from the typed list (in start order) with the
+    // days they cover
+    private holidays: NonWorkingPeriod[] = [];
+    private daysOff: Set<number> = new Set();
+    // Markers from the typed list (in start order)
+    private markers: Marker[] = [];
     private settings: VisualSettings;
     private collapsed: Set<string> = new Set();
+    // Persisted collapse state (or default) the collapsed set was last restored
+    // from, so updates that don't change it keep the in-memory state
+    private collapsedSource: string | null = null;
     private viewStart: Date = new Date();
     private viewEnd: Date = new Date();
     private selectionManager: ISelectionManager;
+    // Current selection (ours, or restored from a bookmark) and whether the
+    // data carries cross-highlight values from another visual
+    private selectedIds: ISelectionId[] = [];
+    private hasHighlights: boolean = false;
+    // Row key that a Shift-click range selection extends from
+    private selectionAnchorKey: string | null = null;
+    // Keyboard grid cell holding the single tab stop (roving focus)
+    private focusCell: { rowKey: string; column: GridColumn } | null = null;
     private rowPositions: Map<string, { y: number; height: number }> = new Map();
 
     // Coordinate engine for timeline calculations
     private coordinateEngine: CoordinateEngine | null = null;
 
+    // Work item types discovered in the data, with their per-type settings
+    private typeRegistry: TypeRegistry = new TypeRegistry([]);
+    private typeOverrides: Map<string, TypeOverrides> = new Map();
+    // Format pane edit of the edited type, not yet saved in the per-type JSON
+    private typeEdit: TypeOverrides | null = null;
+
+    // Total float and critical path over the predecessor graph
+    private schedule: ScheduleAnalysis = ScheduleAnalyzer.analyze([]);
+
+    // Link, parent date range and cycle conflicts found in the data
+    private validation: ValidationResult = ScheduleValidator.validate([]);
+    // Percent complete (0-1) by item ID, rolled up from children where needed
+    private progress: Map<string, number> = new Map();
+    // Item to scroll to once the rows it was hidden in have been expanded
+    private pendingScrollItemId: string | null = null;
+
+    // In-visual search (kept for the session, not saved with the report)
+    private searchQuery: string = "";
+    private searchTerm: string = "";
+    // Matching item IDs in row order, and the current match
+    private searchMatches: string[] = [];
+    private searchMatchIds: Set<string> = new Set();
+    private searchIndex: number = -1;
+    // Keys of the rows above the matches (parents and group headers)
+    private searchAncestorKeys: Set<string> = new Set();
+    private showMatchesOnly: boolean = false;
+    // Items kept by "show matches only": the matches and their ancestors
+    private searchVisibleIds: Set<string> | null = null;
+
     // Occlusion culling state
     private currentScrollTop: number = 0;
     private currentScrollLeft: number = 0;
@@ -147,19 +379,44 @@ export class RoadmapVisual implements IVisual {
     private viewportWidth: number = 0;
     private allRows: RowData[] = [];
     private renderedRowIds: Set<string> = new Set();
+    private renderedRowElements: Map<string, { row: RowData; left: HTMLDivElement; timeline: HTMLDivElement }> = new Map();
+    private leftInner: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    private timelineInner: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    private scrollFrame: number = 0;
+
+    // Time-axis (horizontal) culling state
+    private timelineHeader: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    private gridLayer: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    private renderedWindow: DateWindow | null = null;
+
+    // Toolbar popover state (kept across re-renders triggered by persistProperties)
+    private toolbar: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    private openPanel: ToolbarPanel | null = null;
+
+    // Zoom state: the date kept under the cursor (or viewport centre) while the
+    // host re-renders with the new scale/zoom
+    private timelineBody: d3.Selection<HTMLDivElement, unknown, null, undefined> | null = null;
+    private pendingZoomAnchor: { date: Date; dayFraction: number; offsetX: number } | null = null;
 
     constructor(options: VisualConstructorOptions) {
         this.host = options.host;
+        this.rootElement = options.element;
         this.selectionManager = options.host.createSelectionManager();
-
-        // Register context menu handler
-        this.selectionManager.registerOnSelectCallback(() => {
-            // Handle selection changes
+        this.localizationManager = options.host.createLocalizationManager();
+        this.locale = options.host.locale || "en-AU";
+        this.weekInfo = DateService.getWeekInfo(this.locale);
+        this.isRtl = DateService.isRtlLocale(this.locale);
+
+        // Selection changed by the host (e.g. a bookmark was applied)
+        this.selectionManager.registerOnSelectCallback((ids: ISelectionId[]) => {
+            this.applySelectionState(ids);
         });
 
         this.container = d3.select(options.element)
             .append("div")
-            .classed("roadmap-container", true);
+            .classed("roadmap-container", true)
+            .attr("lang", this.locale)
+            .attr("dir", this.isRtl ? "rtl" : "ltr");
 
         // Set up context menu on container
         this.container.on("contextmenu", (event: MouseEvent) => {
@@ -170,36 +427,24 @@ export class RoadmapVisual implements IVisual {
             );
         });
 
-        this.settings = {
-            title: "Roadmap",
-            subtitle: "Work Items",
-            rowDensity: "normal",
-            enableDragPan: true,
-            logoUrl: "",
-            logoSize: "medium",
-            showLogo: true,
-            groupBy: "epic",
-            showHierarchy: true,
-            defaultExpanded: true,
-            epicColor: DEFAULT_COLORS.epic,
-            releaseColor: DEFAULT_COLORS.release,
-            milestoneColor: DEFAULT_COLORS.milestone,
-            featureColor: DEFAULT_COLORS.feature,
-            isHighContrast: false,
-            milestoneLabelPosition: "right",
-            milestoneShowDate: false,
-            showDependencies: false,
-            showParentChild: true,
-            showPredecessors: true,
-            dependencyLineColor: DEFAULT_COLORS.dependencyLine,
-            showEpics: true,
-            showReleases: true,
-            showFeatures: true,
-            showMilestones: true,
-            timeScale: "monthly",
-            zoomLevel: 1,
-            pdfMode: false
-        };
+        // Close the open toolbar popover when clicking anywhere outside it
+        this.container.on("click.toolbarPanel", (event: MouseEvent) => {
+            const target = event.target as HTMLElement;
+            if (this.openPanel && !target.closest(".toolbar-popover, .toolbar-btn")) {
+                this.setOpenPanel(null);
+            }
+        });
+
+        // Clicking empty space clears the selection
+        this.container.on("click.clearSelection", (event: MouseEvent) => {
+            const target = event.target as HTMLElement;
+            if (this.selectedIds.length === 0 || target.closest(".bar, .milestone, .row, .toolbar, .toolbar-popover, button, input, select, a")) return;
+            this.selectionAnchorKey = null;
+            this.selectionManager.clear().then(() => this.applySelectionState([]));
+        });
+
+        this.settings = this.createDefaultSettings();
+        this.applyFiscalCalendar();
     }
 
     public update(options: VisualUpdateOptions): void {
@@ -207,13 +452,16 @@ export class RoadmapVisual implements IVisual {
         this.host.eventService.renderingStarted(options);
 
         try {
-            // Clear previous content
+            // Clear previous content, remembering whether keyboard focus was in the grid
+            // or the search field
+            const hadFocus = this.isGridFocused();
+            const searchCaret = this.getSearchCaret();
             this.container.selectAll("*").remove();
             this.rowPositions.clear();
 
             // Validate data
             if (!options.dataViews || !options.dataViews[0]) {
-                this.renderEmptyState("No data available");
+                this.renderEmptyState(this.t("Visual_Empty_NoData"));
                 this.host.eventService.renderingFinished(options);
                 return;
             }
@@ -223,19 +471,31 @@ export class RoadmapVisual implements IVisual {
             // Parse data and settings
             this.parseData(dataView);
             this.parseSettings(dataView);
+            this.warnIfRowLimitReached(dataView);
+            this.applyFiscalCalendar();
+            this.applyIterationDates();
+            this.applyWorkingCalendar();
+            this.markers = MarkerService.normalize(this.settings.markerList);
+            this.typeRegistry = this.buildTypeRegistry();
+            this.applyTypeEdit();
+            this.schedule = ScheduleAnalyzer.analyze(this.workItems);
+            this.validation = ScheduleValidator.validate(this.workItems);
+            this.progress = ProgressCalculator.calculate(this.workItems, this.settings.doneStates);
+            this.restoreCollapsed(dataView);
+            this.updateSearchMatches();
 
             // Apply high contrast mode class
             this.container.classed("high-contrast", this.settings.isHighContrast);
 
             if (this.workItems.length === 0) {
-                this.renderEmptyState("Add data fields to display the roadmap");
+                this.renderEmptyState(this.t("Visual_Empty_AddFields"));
                 this.host.eventService.renderingFinished(options);
                 return;
             }
 
             // Calculate timeline bounds
             const dates = this.workItems.flatMap(w =>
-                [w.startDate, w.targetDate].filter((d): d is Date => d !== null)
+                [w.startDate, w.targetDate, w.baselineStartDate, w.baselineTargetDate].filter((d): d is Date => d !== null)
             );
 
             const minDate = dates.length > 0
@@ -263,6 +523,8 @@ export class RoadmapVisual implements IVisual {
 
             // Render visual
             this.render(options.viewport.width, options.viewport.height, this.viewEnd);
+            if (hadFocus) this.focusGridCell(true);
+            this.restoreSearchFocus(searchCaret);
 
             // Signal render finished - REQUIRED FOR CERTIFICATION
             this.host.eventService.renderingFinished(options);
@@ -273,8 +535,234 @@ export class RoadmapVisual implements IVisual {
         }
     }
 
+    /**
+     * Format pane cards: one per settings object (the toolbar popovers edit
+     * some of the same settings), with per-type settings in Work Item Types.
+     */
+    public getFormattingModel(): FormattingModel {
+        const settings = this.settings;
+        const cards: FormattingCard[] = [
+            this.createSettingsCard("display", "Object_Display", [
+                { property: "viewScale", control: "Dropdown", value: settings.timeScale },
+                { property: "rowDensity", control: "Dropdown", value: settings.rowDensity },
+                { property: "zoomLevel", control: "Dropdown", value: String(settings.zoomLevel) },
+                { property: "enableDragPan", control: "ToggleSwitch", value: settings.enableDragPan },
+            ]),
+            this.createSettingsCard("general", "Object_General", [
+                { property: "title", control: "TextInput", value: settings.title },
+                { property: "subtitle", control: "TextInput", value: settings.subtitle },
+            ]),
+            this.createSettingsCard("logo", "Object_Logo", [
+                { property: "show", control: "ToggleSwitch", value: settings.showLogo },
+                { property: "imageUrl", control: "TextInput", value: settings.logoUrl },
+                { property: "size", control: "Dropdown", value: settings.logoSize },
+            ]),
+            this.createSettingsCard("organization", "Object_Organization", [
+                { property: "groupBy", control: "Dropdown", value: settings.groupBy },
+                { property: "secondaryGroupBy", control: "Dropdown", value: settings.secondaryGroupBy },
+                { property: "tertiaryGroupBy", control: "Dropdown", value: settings.tertiaryGroupBy },
+                { property: "pathRootDepth", control: "NumUpDown", value: settings.pathRootDepth },
+                { property: "pathMaxDepth", control: "NumUpDown", value: settings.pathMaxDepth },
+                { property: "showHierarchy", control: "ToggleSwitch", value: settings.showHierarchy },
+                { property: "defaultExpanded", control: "ToggleSwitch", value: settings.defaultExpanded },
+                { property: "sortBy", control: "Dropdown", value: settings.sortBy },
+            ]),
+        ];
+        const typesCard = this.getWorkItemTypesCard();
+        if (typesCard) cards.push(typesCard);
+        cards.push(
+            this.createSettingsCard("workItemColors", "Object_WorkItemColors", [
+                { property: "epicColor", control: "ColorPicker", value: settings.epicColor },
+                { property: "releaseColor", control: "ColorPicker", value: settings.releaseColor },
+                { property: "featureColor", control: "ColorPicker", value: settings.featureColor },
+                { property: "milestoneColor", control: "ColorPicker", value: settings.milestoneColor },
+                { property: "isHighContrast", control: "ToggleSwitch", value: settings.isHighContrast },
+            ]),
+            this.createSettingsCard("fiscalCalendar", "Object_FiscalCalendar", [
+                { property: "startMonth", control: "Dropdown", value: String(settings.fiscalStartMonth + 1) },
+                { property: "pattern", control: "Dropdown", value: settings.fiscalPattern },
+                { property: "yearLabel", control: "Dropdown", value: settings.fiscalYearLabel },
+            ]),
+            this.createSettingsCard("iterations", "Object_Iterations", [
+                { property: "showHeader", control: "ToggleSwitch", value: settings.showSprintHeader },
+                { property: "showBands", control: "ToggleSwitch", value: settings.showSprintBands },
+                { property: "highlightCurrent", control: "ToggleSwitch", value: settings.highlightCurrentSprint },
+                { property: "fillDates", control: "ToggleSwitch", value: settings.fillDatesFromIteration },
+            ], "Object_Iterations_Description"),
+            this.createSettingsCard("tags", "Object_Tags", [
+                { property: "showChips", control: "ToggleSwitch", value: settings.showTagChips },
+                { property: "showFilter", control: "ToggleSwitch", value: settings.showTagFilter },
+                { property: "includeTags", control: "TextInput", value: settings.includeTags.join("; ") },
+                { property: "excludeTags", control: "TextInput", value: settings.excludeTags.join("; ") },
+            ]),
+            this.createSettingsCard("workingDays", "Object_WorkingDays", [
+                { property: "shadeWeekends", control: "ToggleSwitch", value: settings.shadeWeekends },
+                { property: "showHolidays", control: "ToggleSwitch", value: settings.showHolidays },
+                { property: "holidays", control: "TextInput", value: WorkingCalendar.formatList(settings.holidayList) },
+                { property: "showInTooltip", control: "ToggleSwitch", value: settings.showWorkingDays },
+            ]),
+            this.createSettingsCard("markers", "Object_Markers", [
+                { property: "show", control: "ToggleSwitch", value: settings.showMarkers },
+                { property: "markers", control: "TextInput", value: MarkerService.formatList(settings.markerList) },
+                { property: "lineColor", control: "ColorPicker", value: settings.markerColor },
+                { property: "rangeColor", control: "ColorPicker", value: settings.markerRangeColor },
+                { property: "lineStyle", control: "Dropdown", value: settings.markerLineStyle },
+            ]),
+            this.createSettingsCard("milestones", "Object_Milestones", [
+                { property: "labelPosition", control: "Dropdown", value: settings.milestoneLabelPosition },
+                { property: "showDate", control: "ToggleSwitch", value: settings.milestoneShowDate },
+            ]),
+            this.createSettingsCard("dependencies", "Object_Dependencies", [
+                { property: "show", control: "ToggleSwitch", value: settings.showDependencies },
+                { property: "showParentChild", control: "ToggleSwitch", value: settings.showParentChild },
+                { property: "showPredecessors", control: "ToggleSwitch", value: settings.showPredecessors },
+                { property: "lineColor", control: "ColorPicker", value: settings.dependencyLineColor },
+            ]),
+            this.createSettingsCard("criticalPath", "Object_CriticalPath", [
+                { property: "show", control: "ToggleSwitch", value: settings.showCriticalPath },
+                { property: "color", control: "ColorPicker", value: settings.criticalPathColor },
+                { property: "filterByFloat", control: "ToggleSwitch", value: settings.filterByFloat },
+                { property: "maxFloatDays", control: "NumUpDown", value: settings.maxFloatDays },
+            ]),
+            this.createSettingsCard("progress", "Object_Progress", [
+                { property: "show", control: "ToggleSwitch", value: settings.showProgress },
+                { property: "doneStates", control: "TextInput", value: settings.doneStates.join(", ") },
+            ]),
+            this.createSettingsCard("baseline", "Object_Baseline", [
+                { property: "show", control: "ToggleSwitch", value: settings.showBaseline },
+            ]),
+            this.createSettingsCard("export", "Object_Export", [
+                { property: "pdfMode", control: "ToggleSwitch", value: settings.pdfMode },
+            ]),
+            this.createSettingsCard("classification", "Object_Classification", [
+                { property: "level", control: "Dropdown", value: settings.classification?.level || "none" },
+                { property: "caveats", control: "TextInput", value: settings.classification?.caveats.join("; ") || "" },
+                { property: "dlm", control: "Dropdown", value: settings.classification?.dlm || "none" },
+            ])
+        );
+        return { cards };
+    }
+
+    /**
+     * Card with one slice per setting of a capabilities object, and an
+     * optional description shown under the card's name.
+     */
+    private createSettingsCard(objectName: string, displayNameKey: string, settings: FormatPaneSetting[], descriptionKey?: string): FormattingCard {
+        const descriptors: FormattingDescriptor[] = settings.map(setting => ({ objectName, propertyName: setting.property }));
+        return {
+            uid: objectName,
+            displayName: this.t(displayNameKey),
+            description: descriptionKey ? this.t(descriptionKey) : undefined,
+            groups: [{
+                uid: `${objectName}-settings`,
+                displayName: this.t(displayNameKey),
+                slices: settings.map((setting, index) => this.createSettingsSlice(
+                    `${objectName}-${setting.property}`,
+                    this.t(`${displayNameKey}_${setting.property.charAt(0).toUpperCase()}${setting.property.slice(1)}`),
+                    setting,
+                    descriptors[index]
+                ))
+            }],
+            revertToDefaultDescriptors: descriptors
+        };
+    }
+
+    private createSettingsSlice(uid: string, displayName: string, setting: FormatPaneSetting, descriptor: FormattingDescriptor): FormattingSlice {
+        switch (setting.control) {
+        case "ToggleSwitch":
+            return { uid, displayName, control: { type: "ToggleSwitch", properties: { descriptor, value: Boolean(setting.value) } } };
+        case "TextInput":
+            return { uid, displayName, control: { type: "TextInput", properties: { descriptor, value: String(setting.value), placeholder: "" } } };
+        case "NumUpDown":
+            return { uid, displayName, control: { type: "NumUpDown", properties: { descriptor, value: Number(setting.value) } } };
+        case "ColorPicker":
+            return { uid, displayName, control: { type: "ColorPicker", properties: { descriptor, value: { value: String(setting.value) } } } };
+        default:
+            return { uid, displayName, control: { type: "Dropdown", properties: { descriptor, value: String(setting.value) } } };
+        }
+    }
+
+    /**
+     * Work Item Types card: a Type dropdown listing the types in the data,
+     * then the settings of the chosen type (see applyTypeEdit).
+     */
+    private getWorkItemTypesCard(): FormattingCard | null {
+        const type = this.getEditedType();
+        if (!type) return null;
+        const config = this.typeRegistry.get(type);
+
+        const descriptors: FormattingDescriptor[] = [];
+        const descriptor = (propertyName: string) => {
+            const d = { objectName: "workItemTypes", propertyName };
+            descriptors.push(d);
+            return d;
+        };
+        const typeItems = this.typeRegistry.types.map(typeConfig => ({ value: typeConfig.name, displayName: typeConfig.name }));
+        const shapeItems = TYPE_SHAPES.map(shape => ({ value: shape, displayName: this.t(TYPE_SHAPE_LABEL_KEYS[shape]) }));
+
+        const group: FormattingGroup = {
+            uid: "workItemTypes-settings",
+            displayName: this.t("Visual_Format_WorkItemTypes"),
+            slices: [
+                {
+                    uid: "workItemTypes-type",
+                    displayName: this.t("Visual_Format_Type"),
+                    control: {
+                        type: "Dropdown",
+                        properties: {
+                            descriptor: descriptor("type"),
+                            items: typeItems,
+                            value: typeItems.find(item => item.value === type) || typeItems[0]
+                        }
+                    }
+                },
+                {
+                    uid: "workItemTypes-show",
+                    displayName: this.t("Visual_Format_Show"),
+                    control: { type: "ToggleSwitch", properties: { descriptor: descriptor("show"), value: config.visible } }
+                },
+                {
+                    uid: "workItemTypes-fill",
+                    displayName: this.t("Visual_Format_Colour"),
+                    control: { type: "ColorPicker", properties: { descriptor: descriptor("fill"), value: { value: config.color } } }
+                },
+                {
+                    uid: "workItemTypes-shape",
+                    displayName: this.t("Visual_Format_Shape"),
+                    control: {
+                        type: "Dropdown",
+                        properties: {
+                            descriptor: descriptor("shape"),
+                            items: shapeItems,
+                            value: shapeItems.find(item => item.value === config.shape) || shapeItems[0]
+                        }
+                    }
+                },
+                {
+                    uid: "workItemTypes-rowHeight",
+                    displayName: this.t("Visual_Format_RowHeight"),
+                    control: { type: "NumUpDown", properties: { descriptor: descriptor("rowHeight"), value: config.rowHeight || 0 } }
+                },
+                {
+                    uid: "workItemTypes-barHeight",
+                    displayName: this.t("Visual_Format_BarHeight"),
+                    control: { type: "NumUpDown", properties: { descriptor: descriptor("barHeight"), value: config.barHeight || 0 } }
+                }
+            ]
+        };
+
+        return {
+            uid: "workItemTypes",
+            displayName: this.t("Visual_Format_WorkItemTypes"),
+            groups: [group],
+            // Reverting clears the saved settings of every type
+            revertToDefaultDescriptors: [...descriptors, descriptor("settings")]
+        };
+    }
+
     private parseData(dataView: DataView): void {
         this.workItems = [];
+        this.iterations = [];
 
         const categorical = dataView.categorical;
         if (!categorical || !categorical.categories || categorical.categories.length === 0) {
@@ -291,18 +779,40 @@ export class RoadmapVisual implements IVisual {
         const stateCol = getColumn("state");
         const startCol = getColumn("startDate");
         const targetCol = getColumn("targetDate");
+        const baselineStartCol = getColumn("baselineStartDate");
+        const baselineTargetCol = getColumn("baselineTargetDate");
         const parentCol = getColumn("parentId");
         const predecessorCol = getColumn("predecessorId");
+        const linkTypeCol = getColumn("dependencyType");
+        const linkLagCol = getColumn("dependencyLag");
         const areaCol = getColumn("areaPath");
         const iterCol = getColumn("iterationPath");
         const assignCol = getColumn("assignedTo");
         const prioCol = getColumn("priority");
         const tagsCol = getColumn("tags");
+        const percentCol = getColumn("percentComplete");
+        const percentScale = ProgressCalculator.getPercentScale(percentCol?.values || []);
+        const effortCol = getColumn("effort");
+
+        // Extra tooltip measures
+        const tooltipCols = (categorical.values || []).filter(col => col.source.roles && col.source.roles.tooltips);
+
+        // Cross-highlight values (sent on measure columns when another visual
+        // highlights: the Highlight Measure, or any Tooltips measure)
+        const highlightCol = (categorical.values || []).find(col => col.highlights);
+        this.hasHighlights = highlightCol !== undefined;
+        const isHighlighted = (i: number) => !highlightCol || (highlightCol.highlights![i] !== null && highlightCol.highlights![i] !== undefined);
 
         // Standalone milestone columns
         const milestoneTitleCol = getColumn("milestoneTitle");
         const milestoneTargetDateCol = getColumn("milestoneTargetDate");
 
+        // Iteration calendar columns
+        const calendarPathCol = getColumn("calendarIterationPath");
+        const iterationStartCol = getColumn("iterationStartDate");
+        const iterationEndCol = getColumn("iterationEndDate");
+        const iterationEntries: IterationEntry[] = [];
+
         // Check if we have work item data OR standalone milestone data
         const hasWorkItemData = idCol && titleCol && typeCol;
         const hasStandaloneMilestones = milestoneTitleCol || milestoneTargetDateCol;
@@ -317,22 +827,33 @@ export class RoadmapVisual implements IVisual {
         // Track standalone milestone IDs to avoid duplicates (when title and date are from same rows)
         const standaloneMilestoneIds = new Set<string>();
 
+        // A work item repeats once per link when predecessors come from a joined
+        // links table, so rows are merged by work item ID
+        const itemsByWorkItemId = new Map<number, WorkItem>();
+
         for (let i = 0; i < rowCount; i++) {
             // Parse regular work items if work item data is available
             if (hasWorkItemData && idCol && titleCol && typeCol) {
                 const workItemId = Number(idCol.values[i]) || 0;
                 const type = this.sanitizeString(String(typeCol.values[i] || "Feature"));
                 const parentVal = parentCol?.values[i];
-                const predecessorVal = predecessorCol?.values[i];
+                const predecessors = DependencyService.parsePredecessors(
+                    predecessorCol?.values[i],
+                    DependencyService.parseType(linkTypeCol?.values[i]) || "FS",
+                    DependencyService.parseLag(linkLagCol?.values[i]) || 0
+                );
 
-                // Only add if we have a valid work item ID
-                if (workItemId > 0) {
-                    // Create selection ID for interactivity
+                const existing = itemsByWorkItemId.get(workItemId);
+                if (existing) {
+                    DependencyService.mergeLinks(existing.predecessors, predecessors);
+                    existing.highlighted = existing.highlighted || isHighlighted(i);
+                } else if (workItemId > 0) {
+                    // Only add if we have a valid work item ID; create selection ID for interactivity
                     const selectionId = this.host.createSelectionIdBuilder()
                         .withCategory(idCol, i)
                         .createSelectionId();
 
-                    this.workItems.push({
+                    const workItem: WorkItem = {
                         id: `${type.charAt(0)}-${workItemId}`,
                         workItemId,
                         title: this.sanitizeString(String(titleCol.values[i] || "")),
@@ -340,15 +861,32 @@ export class RoadmapVisual implements IVisual {
                         state: this.sanitizeString(String(stateCol?.values[i] || "New")),
                         startDate: DateService.parseDate(startCol?.values[i] as string | number | Date | null | undefined),
                         targetDate: DateService.parseDate(targetCol?.values[i] as string | number | Date | null | undefined),
-                        parentId: parentVal ? `E-${parentVal}` : null,
-                        predecessorId: predecessorVal ? String(predecessorVal) : null,
+                        baselineStartDate: DateService.parseDate(baselineStartCol?.values[i] as string | number | Date | null | undefined),
+                        baselineTargetDate: DateService.parseDate(baselineTargetCol?.values[i] as string | number | Date | null | undefined),
+                        parentId: parentVal ? String(parentVal) : null,
+                        predecessors,
                         areaPath: this.sanitizeString(String(areaCol?.values[i] || "")),
                         iterationPath: this.sanitizeString(String(iterCol?.values[i] || "")),
+                        datesFromIteration: false,
                         assignedTo: this.sanitizeString(String(assignCol?.values[i] || "")),
                         priority: Number(prioCol?.values[i]) || 0,
-                        tags: this.sanitizeString(String(tagsCol?.values[i] || "")),
+                        // Tags are split as typed: escaping first would split "R&D" at the
+                        // entity's ";". They are only ever rendered as text
+                        tags: String(tagsCol?.values[i] || ""),
+                        tagList: TagService.parse(String(tagsCol?.values[i] || "")),
+                        percentComplete: ProgressCalculator.parsePercent(percentCol?.values[i], percentScale),
+                        effort: ProgressCalculator.parseEffort(effortCol?.values[i]),
+                        tooltipValues: tooltipCols
+                            .filter(col => col.values[i] !== null && col.values[i] !== undefined)
+                            .map(col => ({
+                                displayName: col.source.displayName,
+                                value: this.formatTooltipValue(col.values[i], col.source.format)
+                            })),
+                        highlighted: isHighlighted(i),
                         selectionId
-                    });
+                    };
+                    itemsByWorkItemId.set(workItemId, workItem);
+                    this.workItems.push(workItem);
                 }
             }
 
@@ -362,9 +900,10 @@ export class RoadmapVisual implements IVisual {
                     const titleStr = this.sanitizeString(String(milestoneTitle || ""));
                     const targetDate = DateService.parseDate(milestoneTargetDate as string | number | Date | null | undefined);
 
-                    // Create a unique ID for the standalone milestone based on title and date
+                    // Create a unique ID for the standalone milestone based on title and date,
+                    // so rows repeated by the iteration fields don't repeat the milestone
                     const dateKey = targetDate ? targetDate.toISOString().split("T")[0] : "nodate";
-                    const milestoneId = `SM-${i}-${dateKey}`;
+                    const milestoneId = `SM-${titleStr}-${dateKey}`;
 
                     // Avoid adding duplicate milestones (e.g., when same row has both title and date)
                     if (!standaloneMilestoneIds.has(milestoneId) && (titleStr || targetDate)) {
@@ -381,27 +920,225 @@ export class RoadmapVisual implements IVisual {
                         this.workItems.push({
                             id: milestoneId,
                             workItemId: -(i + 1), // Negative ID to distinguish from regular work items
-                            title: titleStr || (targetDate ? DateService.formatAU(targetDate, { day: "numeric", month: "short", year: "numeric" }) : "Milestone"),
+                            title: titleStr || (targetDate ? this.formatDate(targetDate, { day: "numeric", month: "short", year: "numeric" }) : this.t("Visual_Milestone")),
                             type: "Milestone",
                             state: "Active",
                             startDate: null,
                             targetDate: targetDate,
+                            baselineStartDate: null,
+                            baselineTargetDate: null,
                             parentId: null,
-                            predecessorId: null,
+                            predecessors: [],
                             areaPath: "",
                             iterationPath: "",
+                            datesFromIteration: false,
                             assignedTo: "",
                             priority: 0,
                             tags: "",
+                            tagList: [],
+                            percentComplete: null,
+                            effort: null,
+                            tooltipValues: [],
+                            highlighted: isHighlighted(i),
                             selectionId
                         });
                     }
                 }
             }
+
+            if (calendarPathCol) {
+                iterationEntries.push({
+                    path: this.sanitizeString(String(calendarPathCol.values[i] || "")),
+                    start: DateService.parseDate(iterationStartCol?.values[i] as string | number | Date | null | undefined),
+                    end: DateService.parseDate(iterationEndCol?.values[i] as string | number | Date | null | undefined)
+                });
+            }
         }
+        this.iterations = IterationCalendar.build(iterationEntries);
+    }
+
+    /**
+     * Show the host's warning icon when the data reduction may have dropped
+     * rows, e.g. when fields from an unrelated table repeat each work item.
+     */
+    private warnIfRowLimitReached(dataView: DataView): void {
+        const rowCount = dataView.categorical?.categories?.[0]?.values.length || 0;
+        if (rowCount < DATA_ROW_LIMIT && !dataView.metadata.segment) return;
+        this.host.displayWarningIcon(
+            this.t("Visual_Warning_RowLimit"),
+            this.t("Visual_Warning_RowLimit_Detail", this.formatNumber(DATA_ROW_LIMIT))
+        );
+    }
+
+    /**
+     * Sort the typed holidays and collect the days they cover for working
+     * day counts.
+     */
+    private applyWorkingCalendar(): void {
+        this.holidays = WorkingCalendar.normalize(this.settings.holidayList);
+        this.daysOff = WorkingCalendar.getDaysOff(this.holidays);
+    }
+
+    /**
+     * Rebuild the calendar periods for the fiscal calendar settings.
+     */
+    private applyFiscalCalendar(): void {
+        this.fiscal = {
+            startMonth: this.settings.fiscalStartMonth,
+            pattern: this.settings.fiscalPattern,
+            weekStartDay: this.weekInfo.firstDay,
+            yearLabel: this.settings.fiscalYearLabel
+        };
+        this.periods = createPeriods(this.fiscal);
+    }
+
+    /**
+     * Give items with neither a start nor a target date the dates of the
+     * iteration their Iteration Path names, when it is on the calendar.
+     */
+    private applyIterationDates(): void {
+        if (!this.settings.fillDatesFromIteration || this.iterations.length === 0) return;
+        const index = IterationCalendar.index(this.iterations);
+        this.workItems.forEach(item => {
+            if (item.startDate || item.targetDate || !item.iterationPath) return;
+            const iteration = IterationCalendar.findByPath(index, item.iterationPath);
+            if (!iteration) return;
+            item.startDate = iteration.start;
+            item.targetDate = iteration.end;
+            item.datesFromIteration = true;
+        });
+    }
+
+    /**
+     * Settings written by the Work Item Types card's slices. The slices edit
+     * shared properties for whichever type is chosen in the card, so the
+     * values are moved into the per-type JSON by applyTypeEdit().
+     */
+    private parseTypeEdit(typeObject: DataViewObject): TypeOverrides | null {
+        const edit: TypeOverrides = {};
+        const color = (typeObject.fill as { solid?: { color?: string } })?.solid?.color;
+        if (color) edit.color = color;
+        if (typeof typeObject.rowHeight === "number") edit.rowHeight = typeObject.rowHeight > 0 ? typeObject.rowHeight : null;
+        if (typeof typeObject.barHeight === "number") edit.barHeight = typeObject.barHeight > 0 ? typeObject.barHeight : null;
+        const shape = String(typeObject.shape || "");
+        if ((TYPE_SHAPES as readonly string[]).includes(shape)) edit.shape = shape as TypeShape;
+        if (typeof typeObject.show === "boolean") edit.visible = typeObject.show;
+        return Object.keys(edit).length > 0 ? edit : null;
+    }
+
+    /**
+     * Save a format pane edit against the edited type and clear the shared
+     * properties it was written to.
+     */
+    private applyTypeEdit(): void {
+        const type = this.getEditedType();
+        if (!this.typeEdit || !type) return;
+        this.typeOverrides.set(type, { ...this.typeOverrides.get(type), ...this.typeEdit });
+        this.typeEdit = null;
+        this.typeRegistry = this.buildTypeRegistry();
+        this.host.persistProperties({
+            merge: [{
+                objectName: "workItemTypes",
+                selector: null,
+                properties: { settings: TypeRegistry.formatOverrides(this.typeOverrides) }
+            }],
+            remove: [{
+                objectName: "workItemTypes",
+                selector: null,
+                properties: { fill: null, rowHeight: null, barHeight: null, shape: null, show: null }
+            }]
+        });
+    }
+
+    /**
+     * Type shown in the Work Item Types card: the chosen type while it is in
+     * the data, otherwise the first type.
+     */
+    private getEditedType(): string | null {
+        const types = this.typeRegistry.types;
+        const edited = types.find(config => config.name === this.settings.editedType) || types[0];
+        return edited ? edited.name : null;
+    }
+
+    private buildTypeRegistry(): TypeRegistry {
+        const baseColors: Record<string, string> = {};
+        Object.keys(BUILT_IN_COLOR_KEYS).forEach(type => {
+            baseColors[type] = this.settings[BUILT_IN_COLOR_KEYS[type]];
+        });
+        return new TypeRegistry(this.workItems.map(w => w.type), this.typeOverrides, baseColors);
+    }
+
+    /**
+     * Settings before the saved format pane values are applied. Built afresh
+     * on each update so reverted (removed) properties go back to default.
+     */
+    private createDefaultSettings(): VisualSettings {
+        return {
+            title: this.t("Visual_DefaultTitle"),
+            subtitle: this.t("Visual_DefaultSubtitle"),
+            rowDensity: "normal",
+            enableDragPan: true,
+            logoUrl: "",
+            logoSize: "medium",
+            showLogo: true,
+            groupBy: "epic",
+            secondaryGroupBy: GROUP_BY_NONE,
+            tertiaryGroupBy: GROUP_BY_NONE,
+            pathRootDepth: 0,
+            pathMaxDepth: 0,
+            showHierarchy: true,
+            defaultExpanded: true,
+            sortBy: "type",
+            fiscalStartMonth: 0,
+            fiscalPattern: "months",
+            fiscalYearLabel: "end",
+            showSprintHeader: true,
+            showSprintBands: true,
+            highlightCurrentSprint: true,
+            fillDatesFromIteration: true,
+            showTagChips: false,
+            showTagFilter: true,
+            includeTags: [],
+            excludeTags: [],
+            shadeWeekends: true,
+            showHolidays: true,
+            holidayList: [],
+            showWorkingDays: true,
+            showMarkers: true,
+            markerList: [],
+            markerColor: DEFAULT_COLORS.marker,
+            markerRangeColor: DEFAULT_COLORS.markerRange,
+            markerLineStyle: "dashed",
+            editedType: "",
+            epicColor: DEFAULT_COLORS.epic,
+            releaseColor: DEFAULT_COLORS.release,
+            milestoneColor: DEFAULT_COLORS.milestone,
+            featureColor: DEFAULT_COLORS.feature,
+            isHighContrast: false,
+            milestoneLabelPosition: "right",
+            milestoneShowDate: false,
+            showDependencies: false,
+            showParentChild: true,
+            showPredecessors: true,
+            dependencyLineColor: DEFAULT_COLORS.dependencyLine,
+            showCriticalPath: false,
+            criticalPathColor: DEFAULT_COLORS.criticalPath,
+            filterByFloat: false,
+            maxFloatDays: 0,
+            showBaseline: true,
+            showProgress: true,
+            doneStates: [...DEFAULT_DONE_STATES],
+            timeScale: "monthly",
+            zoomLevel: 1,
+            pdfMode: false,
+            classification: null
+        };
     }
 
     private parseSettings(dataView: DataView): void {
+        this.settings = this.createDefaultSettings();
+        this.typeOverrides = new Map();
+        this.typeEdit = null;
         const objects = dataView.metadata?.objects;
         if (!objects) return;
 
@@ -423,8 +1160,8 @@ export class RoadmapVisual implements IVisual {
         }
         // Title & Subtitle
         if (objects.general) {
-            this.settings.title = this.sanitizeString(String(objects.general.title || this.settings.title));
-            this.settings.subtitle = this.sanitizeString(String(objects.general.subtitle || this.settings.subtitle));
+            this.settings.title = String(objects.general.title || this.settings.title);
+            this.settings.subtitle = String(objects.general.subtitle || this.settings.subtitle);
         }
         // Logo settings
         if (objects.logo) {
@@ -458,15 +1195,66 @@ export class RoadmapVisual implements IVisual {
         // Organization settings
         if (objects.organization) {
             this.settings.groupBy = this.sanitizeString(String(objects.organization.groupBy || "epic"));
+            this.settings.secondaryGroupBy = this.sanitizeString(String(objects.organization.secondaryGroupBy || GROUP_BY_NONE));
+            this.settings.tertiaryGroupBy = this.sanitizeString(String(objects.organization.tertiaryGroupBy || GROUP_BY_NONE));
+            const rootDepth = Number(objects.organization.pathRootDepth);
+            this.settings.pathRootDepth = isFinite(rootDepth) && rootDepth > 0 ? Math.floor(rootDepth) : 0;
+            const maxDepth = Number(objects.organization.pathMaxDepth);
+            this.settings.pathMaxDepth = isFinite(maxDepth) && maxDepth > 0 ? Math.floor(maxDepth) : 0;
             this.settings.showHierarchy = objects.organization.showHierarchy !== false;
             this.settings.defaultExpanded = objects.organization.defaultExpanded !== false;
+            const sortBy = String(objects.organization.sortBy || "type");
+            if (SORT_BY_OPTIONS.some(option => option.value === sortBy)) {
+                this.settings.sortBy = sortBy as SortByOption;
+            }
         }
-        // Visible Levels
-        if (objects.levels) {
-            this.settings.showEpics = objects.levels.showEpics !== false;
-            this.settings.showReleases = objects.levels.showReleases !== false;
-            this.settings.showFeatures = objects.levels.showFeatures !== false;
-            this.settings.showMilestones = objects.levels.showMilestones !== false;
+        // Work item types: settings saved per type name, and a pending edit
+        // from the format pane
+        if (objects.workItemTypes) {
+            this.typeOverrides = TypeRegistry.parseOverrides(String(objects.workItemTypes.settings || ""));
+            this.settings.editedType = String(objects.workItemTypes.type || "");
+            this.typeEdit = this.parseTypeEdit(objects.workItemTypes);
+        }
+        // Fiscal calendar
+        if (objects.fiscalCalendar) {
+            const startMonth = Number(objects.fiscalCalendar.startMonth);
+            this.settings.fiscalStartMonth = startMonth >= 1 && startMonth <= 12 ? Math.floor(startMonth) - 1 : 0;
+            const pattern = String(objects.fiscalCalendar.pattern || "months");
+            if ((FISCAL_PATTERNS as readonly string[]).includes(pattern)) {
+                this.settings.fiscalPattern = pattern as FiscalPattern;
+            }
+            this.settings.fiscalYearLabel = objects.fiscalCalendar.yearLabel === "start" ? "start" : "end";
+        }
+        // Iteration calendar
+        if (objects.iterations) {
+            this.settings.showSprintHeader = objects.iterations.showHeader !== false;
+            this.settings.showSprintBands = objects.iterations.showBands !== false;
+            this.settings.highlightCurrentSprint = objects.iterations.highlightCurrent !== false;
+            this.settings.fillDatesFromIteration = objects.iterations.fillDates !== false;
+        }
+        // Tags
+        if (objects.tags) {
+            this.settings.showTagChips = Boolean(objects.tags.showChips);
+            this.settings.showTagFilter = objects.tags.showFilter !== false;
+            this.settings.includeTags = TagService.parse(String(objects.tags.includeTags || ""));
+            this.settings.excludeTags = TagService.parse(String(objects.tags.excludeTags || ""));
+        }
+        // Working days
+        if (objects.workingDays) {
+            this.settings.shadeWeekends = objects.workingDays.shadeWeekends !== false;
+            this.settings.showHolidays = objects.workingDays.showHolidays !== false;
+            this.settings.holidayList = WorkingCalendar.parseList(String(objects.workingDays.holidays || ""));
+            this.settings.showWorkingDays = objects.workingDays.showInTooltip !== false;
+        }
+        // Markers
+        if (objects.markers) {
+            this.settings.showMarkers = objects.markers.show !== false;
+            this.settings.markerList = MarkerService.parseList(String(objects.markers.markers || ""));
+            const lineColor = (objects.markers.lineColor as { solid?: { color?: string } })?.solid?.color;
+            if (lineColor) this.settings.markerColor = lineColor;
+            const rangeColor = (objects.markers.rangeColor as { solid?: { color?: string } })?.solid?.color;
+            if (rangeColor) this.settings.markerRangeColor = rangeColor;
+            this.settings.markerLineStyle = MarkerService.parseLineStyle(String(objects.markers.lineStyle || "")) || "dashed";
         }
         // Dependencies
         if (objects.dependencies) {
@@ -476,10 +1264,41 @@ export class RoadmapVisual implements IVisual {
             const lineColor = (objects.dependencies.lineColor as { solid?: { color?: string } })?.solid?.color;
             if (lineColor) this.settings.dependencyLineColor = lineColor;
         }
+        // Critical path and float filter
+        if (objects.criticalPath) {
+            this.settings.showCriticalPath = Boolean(objects.criticalPath.show);
+            const color = (objects.criticalPath.color as { solid?: { color?: string } })?.solid?.color;
+            if (color) this.settings.criticalPathColor = color;
+            this.settings.filterByFloat = Boolean(objects.criticalPath.filterByFloat);
+            const maxFloat = Number(objects.criticalPath.maxFloatDays);
+            this.settings.maxFloatDays = isFinite(maxFloat) ? maxFloat : 0;
+        }
+        // Baseline
+        if (objects.baseline) {
+            this.settings.showBaseline = objects.baseline.show !== false;
+        }
+        // Progress
+        if (objects.progress) {
+            this.settings.showProgress = objects.progress.show !== false;
+            const doneStates = String(objects.progress.doneStates || "")
+                .split(",")
+                .map(state => state.trim())
+                .filter(state => state.length > 0);
+            if (doneStates.length > 0) this.settings.doneStates = doneStates;
+        }
         // Export settings (print-friendly mode)
         if (objects.export) {
             this.settings.pdfMode = Boolean(objects.export.pdfMode);
         }
+        // Security classification
+        if (objects.classification) {
+            const level = ClassificationService.parseLevel(String(objects.classification.level || ""));
+            this.settings.classification = level ? {
+                level,
+                caveats: ClassificationService.parseCaveats(String(objects.classification.caveats || "")),
+                dlm: ClassificationService.parseDlm(String(objects.classification.dlm || ""))
+            } : null;
+        }
     }
 
     private render(width: number, height: number, viewEnd: Date): void {
@@ -495,18 +1314,15 @@ export class RoadmapVisual implements IVisual {
         }
 
         const dayWidth = this.coordinateEngine.dayWidth;
-        const totalDays = this.coordinateEngine.totalDays;
         const timelineWidth = this.coordinateEngine.timelineWidth;
         const leftPanelWidth = LAYOUT.LEFT_PANEL_WIDTH;
 
-        // In PDF mode, expand all items
-        if (this.settings.pdfMode) {
-            this.collapsed.clear();
-        }
-
         const rows = this.buildRows();
         const totalHeight = rows.length > 0 ? rows[rows.length - 1].y + rows[rows.length - 1].height : 0;
 
+        this.container.classed("with-classification", this.settings.classification !== null);
+        this.renderClassificationBanner("top");
+
         // Header banner with ARIA landmark
         const header = this.container.append("div")
             .classed("header", true)
@@ -518,7 +1334,7 @@ export class RoadmapVisual implements IVisual {
             header.append("img")
                 .classed("header-logo", true)
                 .attr("src", this.settings.logoUrl)
-                .attr("alt", "Logo")
+                .attr("alt", this.t("Visual_Logo"))
                 .style("width", `${logoSize}px`)
                 .style("height", `${logoSize}px`)
                 .on("error", function() {
@@ -534,60 +1350,107 @@ export class RoadmapVisual implements IVisual {
         // Toolbar with action buttons
         const toolbar = this.container.append("div")
             .classed("toolbar", true);
+        this.toolbar = toolbar;
 
         const toolbarLeft = toolbar.append("div").classed("toolbar-left", true);
 
-        // Group by button
+        // Group by, Colours and Settings buttons open in-visual popovers
         const groupByLabel = this.getGroupByLabel();
-        toolbarLeft.append("button")
-            .classed("toolbar-btn", true)
-            .html(`<span class="btn-icon">📊</span> Group by: ${groupByLabel}`);
-
-        // Colours button
-        toolbarLeft.append("button")
-            .classed("toolbar-btn", true)
-            .html(`<span class="btn-icon">🎨</span> Colours`);
+        this.appendToolbarButton(toolbarLeft, "groupBy", "📊", this.t("Visual_Toolbar_GroupByValue", groupByLabel));
+        this.appendToolbarButton(toolbarLeft, "colours", "🎨", this.t("Visual_Toolbar_Colours"));
+        this.appendToolbarButton(toolbarLeft, "settings", "⚙️", this.t("Visual_Toolbar_Settings"));
+        if (!this.settings.pdfMode && rows.some(row => row.isParent)) {
+            this.appendToolbarButton(toolbarLeft, "expand", "⊞", this.t("Visual_Toolbar_Expand"));
+        }
 
-        // Settings button
-        toolbarLeft.append("button")
-            .classed("toolbar-btn", true)
-            .html(`<span class="btn-icon">⚙️</span> Settings`);
+        // Schedule conflicts summary, listing each problem row
+        const issueCount = this.validation.issues.length;
+        if (issueCount > 0) {
+            this.appendToolbarButton(toolbarLeft, "issues", "⚠️", this.tCount("Visual_IssueCount", issueCount));
+            toolbarLeft.select(".toolbar-btn[data-panel='issues']").classed("toolbar-btn-warning", true);
+        }
+        this.appendSearchBox(toolbarLeft);
 
-        // Zoom controls on the right
+        // Time scale switcher and zoom controls on the right
         const toolbarRight = toolbar.append("div").classed("toolbar-right", true);
+        const scaleToggle = toolbarRight.append("div")
+            .classed("view-toggle", true)
+            .attr("role", "group")
+            .attr("aria-label", this.t("Visual_TimeScale"));
+        TIME_SCALES.forEach(scale => {
+            const isActive = this.settings.timeScale === scale;
+            scaleToggle.append("button")
+                .classed("view-toggle-btn", true)
+                .classed("active", isActive)
+                .attr("aria-pressed", isActive ? "true" : "false")
+                .text(this.t(TIME_SCALE_LABEL_KEYS[scale]))
+                .on("click", () => this.setTimeScale(scale));
+        });
+
         const zoomControls = toolbarRight.append("div").classed("zoom-controls", true);
+        const zoomLevel = this.settings.zoomLevel as ZoomLevel;
 
         zoomControls.append("button")
             .classed("zoom-btn", true)
             .text("−")
-            .attr("aria-label", "Zoom out");
+            .attr("aria-label", this.t("Visual_ZoomOut"))
+            .property("disabled", CoordinateEngine.stepZoom(this.settings.timeScale, zoomLevel, -1) === null)
+            .on("click", () => this.stepZoom(-1));
 
         zoomControls.append("span")
             .classed("zoom-level", true)
-            .text(`${Math.round(this.settings.zoomLevel * 100)}%`);
+            .attr("aria-live", "polite")
+            .text(this.formatPercent(this.settings.zoomLevel));
 
         zoomControls.append("button")
             .classed("zoom-btn", true)
             .text("+")
-            .attr("aria-label", "Zoom in");
+            .attr("aria-label", this.t("Visual_ZoomIn"))
+            .property("disabled", CoordinateEngine.stepZoom(this.settings.timeScale, zoomLevel, 1) === null)
+            .on("click", () => this.stepZoom(1));
+
+        // Re-open the popover that was open before this render
+        this.renderToolbarPanel();
+
+        if (this.settings.showTagFilter) this.renderTagFilterBar();
 
         // Main container with ARIA landmark - add pdf-mode class for print optimization
         const main = this.container.append("div")
             .classed("main", true)
             .classed("pdf-mode", this.settings.pdfMode)
+            .classed("with-sprint-header", this.hasSprintHeader())
+            .classed("with-marker-header", this.hasMarkerHeader())
             .attr("role", "main")
-            .attr("aria-label", "Roadmap timeline visualization");
+            .attr("aria-label", this.t("Visual_Main_Label"))
+            .attr("aria-describedby", "roadmap-keyboard-help")
+            .on("keydown.grid", (event: KeyboardEvent) => this.handleGridKeydown(event))
+            .on("focusin.grid", (event: FocusEvent) => {
+                const cell = this.getCellFromElement(event.target as Element);
+                if (cell) {
+                    this.focusCell = cell;
+                    this.updateTabStop();
+                }
+            });
+        main.append("div")
+            .classed("sr-only", true)
+            .attr("id", "roadmap-keyboard-help")
+            .text(this.t("Visual_KeyboardHelp"));
 
         // Left panel with ARIA navigation landmark
         const left = main.append("div")
             .classed("left-panel", true)
             .style("width", `${leftPanelWidth}px`)
             .attr("role", "navigation")
-            .attr("aria-label", "Work items list");
-        left.append("div").classed("left-header", true).attr("id", "work-items-heading").text("WORK ITEMS");
+            .attr("aria-label", this.t("Visual_WorkItemsList"));
+        left.append("div").classed("left-header", true).attr("id", "work-items-heading").text(this.t("Visual_WorkItemsHeading"));
         const leftBody = left.append("div")
             .classed("left-body", true)
             .attr("aria-labelledby", "work-items-heading");
+        // Rows are absolutely positioned inside a full-height spacer so the
+        // virtual scroller can add and remove them without shifting the rest
+        const leftInner = leftBody.append("div")
+            .classed("left-inner", true)
+            .style("height", `${totalHeight}px`);
 
         // In PDF mode, show all content without scroll
         if (this.settings.pdfMode) {
@@ -598,10 +1461,14 @@ export class RoadmapVisual implements IVisual {
         const timeline = main.append("div")
             .classed("timeline-panel", true)
             .attr("role", "region")
-            .attr("aria-label", "Timeline with work item bars and milestones");
+            .attr("aria-label", this.t("Visual_Timeline_Label"));
         const timelineHeaderWrapper = timeline.append("div").classed("timeline-header-wrapper", true);
         const timelineHeader = timelineHeaderWrapper.append("div").classed("timeline-header", true).style("width", `${timelineWidth}px`);
         const timelineBody = timeline.append("div").classed("timeline-body", true);
+        this.timelineBody = timelineBody;
+        if (this.settings.showDependencies && this.settings.showPredecessors) {
+            this.renderDependencyLegend(timeline);
+        }
 
         // In PDF mode, show all content without scroll
         if (this.settings.pdfMode) {
@@ -613,51 +1480,27 @@ export class RoadmapVisual implements IVisual {
             .style("width", `${timelineWidth}px`)
             .style("height", `${totalHeight}px`);
 
-        // Render headers based on time scale
-        this.renderTimeHeaders(timelineHeader, viewEnd, dayWidth);
-        this.renderGrid(timelineInner, totalDays, dayWidth, viewEnd);
+        // Headers and grid lines are rendered per time window by renderTimeWindow()
+        const gridLayer = timelineInner.append("div").classed("grid-layer", true);
+        this.timelineHeader = timelineHeader;
+        this.gridLayer = gridLayer;
+        this.renderedWindow = null;
         this.renderTodayLine(timelineInner, viewEnd, dayWidth);
+        if (this.settings.showMarkers) this.renderMarkerLines(timelineInner, viewEnd, dayWidth);
 
-        // Store all rows for occlusion culling
+        // Store all rows for the virtual scroller; rows are materialised by renderVisibleRows()
         this.allRows = rows;
+        this.leftInner = leftInner;
+        this.timelineInner = timelineInner;
         this.renderedRowIds.clear();
-
-        // Calculate which rows are visible (occlusion culling)
-        const shouldCull = rows.length >= OCCLUSION.ENABLE_THRESHOLD && !this.settings.pdfMode;
-        const visibleRowBounds = shouldCull
-            ? this.coordinateEngine!.calculateVisibleRows(
-                rows.map(r => ({ y: r.y, height: r.height })),
-                this.currentScrollTop,
-                height - 100, // Approximate viewport height (minus header)
-                rows.length
-            )
-            : rows.map((_, i) => ({ index: i, y: rows[i].y, height: rows[i].height, isVisible: true }));
-
-        // Render only visible rows (or all if below threshold)
-        visibleRowBounds.forEach(bounds => {
-            if (bounds.isVisible) {
-                const row = rows[bounds.index];
-                this.renderLeftRow(leftBody, row);
-                this.renderTimelineRow(timelineInner, row, dayWidth);
-                if (row.data) {
-                    this.rowPositions.set(row.data.id, { y: row.y, height: row.height });
-                    this.renderedRowIds.add(row.data.id);
-                }
-            }
-        });
-
-        // Log culling stats in debug mode (commented out for production)
-        // console.log(`Occlusion culling: ${visibleRowBounds.filter(b => b.isVisible).length}/${rows.length} rows rendered`);
-
-        // Render dependency lines if enabled
-        if (this.settings.showDependencies) {
-            this.renderDependencyLines(timelineInner, rows, dayWidth);
-        }
+        this.renderedRowElements.clear();
 
         // Add version watermark (bottom right corner)
         this.container.append("div")
             .classed("version-watermark", true)
-            .text(`Roadmap Visual v${VISUAL_VERSION}`);
+            .text(this.t("Visual_VersionWatermark", VISUAL_VERSION));
+
+        this.renderClassificationBanner("bottom");
 
         // Sync scroll (disabled in PDF mode)
         if (!this.settings.pdfMode) {
@@ -669,8 +1512,17 @@ export class RoadmapVisual implements IVisual {
                 const updateScrollPosition = () => {
                     this.currentScrollTop = timelineBodyNode.scrollTop;
                     this.currentScrollLeft = timelineBodyNode.scrollLeft;
+                    this.scheduleViewportUpdate();
                 };
 
+                // Restore the scroll position from before this render (the browser clamps it)
+                timelineBodyNode.scrollTop = this.currentScrollTop;
+                timelineBodyNode.scrollLeft = this.currentScrollLeft;
+                leftBodyNode.scrollTop = timelineBodyNode.scrollTop;
+                timelineHeaderWrapperNode.scrollLeft = timelineBodyNode.scrollLeft;
+                this.currentScrollTop = timelineBodyNode.scrollTop;
+                this.currentScrollLeft = timelineBodyNode.scrollLeft;
+
                 leftBody.on("scroll", () => {
                     timelineBodyNode.scrollTop = leftBodyNode.scrollTop;
                     updateScrollPosition();
@@ -681,6 +1533,25 @@ export class RoadmapVisual implements IVisual {
                     updateScrollPosition();
                 });
 
+                // Keep the date that was under the cursor fixed after a zoom
+                if (this.pendingZoomAnchor) {
+                    const anchor = this.pendingZoomAnchor;
+                    const anchorX = this.coordinateEngine.dateToX(anchor.date) + anchor.dayFraction * dayWidth;
+                    timelineBodyNode.scrollLeft = Math.max(0, anchorX - anchor.offsetX);
+                    timelineHeaderWrapperNode.scrollLeft = timelineBodyNode.scrollLeft;
+                    this.currentScrollLeft = timelineBodyNode.scrollLeft;
+                }
+
+                // Ctrl+wheel zooms around the date under the cursor
+                timelineBody.on("wheel.zoom", (event: WheelEvent) => {
+                    if (!event.ctrlKey) return;
+                    event.preventDefault();
+                    // Ignore further wheel steps until the previous zoom has rendered
+                    if (this.pendingZoomAnchor) return;
+                    const rect = timelineBodyNode.getBoundingClientRect();
+                    this.stepZoom(event.deltaY < 0 ? 1 : -1, event.clientX - rect.left);
+                }, { passive: false });
+
                 // Drag-to-pan functionality
                 if (this.settings.enableDragPan) {
                     let isDragging = false;
@@ -724,6 +1595,162 @@ export class RoadmapVisual implements IVisual {
                 }
             }
         }
+        this.pendingZoomAnchor = null;
+
+        // Render the time window, then the rows in (or near) the viewport,
+        // showing the current (or bookmarked) selection
+        this.selectedIds = this.selectionManager.getSelectionIds() as ISelectionId[];
+        this.renderTimeWindow();
+        this.renderVisibleRows();
+
+        if (this.pendingScrollItemId) {
+            this.revealPendingItem();
+        }
+    }
+
+    /**
+     * Time-axis virtualisation: render headers, grid lines, bars and
+     * dependency paths only for the dates in (or near) the horizontal
+     * viewport. Re-runs whenever panning moves the viewport outside the
+     * rendered window, so daily/weekly scales stay usable on multi-year data.
+     */
+    private renderTimeWindow(): void {
+        const engine = this.coordinateEngine;
+        const timelineInner = this.timelineInner;
+        if (!engine || !timelineInner || !this.timelineHeader || !this.gridLayer) return;
+
+        const viewportWidth = this.timelineBody?.node()?.clientWidth || this.viewportWidth;
+        this.renderedWindow = this.settings.pdfMode
+            ? engine.getFullDateWindow()
+            : engine.calculateVisibleDateWindow(this.currentScrollLeft, viewportWidth);
+
+        this.timelineHeader.selectAll("*").remove();
+        this.gridLayer.selectAll("*").remove();
+        this.renderTimeHeaders(this.timelineHeader, this.viewEnd, engine.dayWidth);
+        this.renderGrid(this.gridLayer, engine.totalDays, engine.dayWidth, this.viewEnd);
+
+        // Redraw bars for the rows already in the DOM, keeping keyboard focus
+        const hadFocus = this.isGridFocused();
+        this.renderedRowElements.forEach(({ row, timeline }) => {
+            const rowEl = d3.select(timeline);
+            rowEl.selectAll("*").remove();
+            this.renderTimelineRowContent(rowEl, row, engine.dayWidth);
+        });
+        if (hadFocus) this.focusGridCell(false);
+
+        timelineInner.selectAll(".dependency-layer").remove();
+        if (this.settings.showDependencies) {
+            this.renderDependencyLines(timelineInner, this.allRows, engine.dayWidth);
+        }
+    }
+
+    /**
+     * Whether the horizontal viewport has moved outside the rendered time window.
+     */
+    private isTimeWindowStale(): boolean {
+        const window = this.renderedWindow;
+        if (!window || !this.coordinateEngine || this.settings.pdfMode) return false;
+
+        const viewportWidth = this.timelineBody?.node()?.clientWidth || this.viewportWidth;
+        const missingLeft = this.currentScrollLeft < window.startX && window.startX > 0;
+        const missingRight = this.currentScrollLeft + viewportWidth > window.endX && window.endX < this.coordinateEngine.timelineWidth;
+        return missingLeft || missingRight;
+    }
+
+    /**
+     * Whether a date range overlaps the rendered time window.
+     */
+    private isInTimeWindow(startDate: Date | null, endDate: Date | null): boolean {
+        if (!this.coordinateEngine || !this.renderedWindow) return true;
+        return this.coordinateEngine.isRangeVisible(startDate, endDate, this.renderedWindow);
+    }
+
+    /**
+     * Whether a horizontal pixel span overlaps the rendered time window.
+     */
+    private isXSpanInTimeWindow(x1: number, x2: number): boolean {
+        const window = this.renderedWindow;
+        if (!window) return true;
+        return Math.max(x1, x2) >= window.startX && Math.min(x1, x2) <= window.endX;
+    }
+
+    /**
+     * Virtual scroller: materialise the rows inside the viewport plus
+     * OCCLUSION.BUFFER_PX and remove the ones that have scrolled out of it.
+     * Runs once per render and again (throttled to one per frame) on scroll.
+     * Dependency lines are drawn from allRows positions, so they stay
+     * correct whichever rows are currently in the DOM.
+     */
+    private renderVisibleRows(): void {
+        const leftInner = this.leftInner;
+        const timelineInner = this.timelineInner;
+        if (!this.coordinateEngine || !leftInner || !timelineInner) return;
+
+        const rows = this.allRows;
+        const dayWidth = this.coordinateEngine.dayWidth;
+        const shouldCull = rows.length >= OCCLUSION.ENABLE_THRESHOLD && !this.settings.pdfMode;
+        const viewportHeight = this.timelineBody?.node()?.clientHeight || this.viewportHeight;
+        const visibleRowBounds = shouldCull
+            ? this.coordinateEngine.calculateVisibleRows(
+                rows.map(r => ({ y: r.y, height: r.height })),
+                this.currentScrollTop,
+                viewportHeight,
+                rows.length
+            )
+            : rows.map((_, i) => ({ index: i, y: rows[i].y, height: rows[i].height, isVisible: true }));
+
+        const visibleIndices = visibleRowBounds.filter(b => b.isVisible).map(b => b.index);
+        const visibleKeys = new Set(visibleIndices.map(i => rows[i].key));
+
+        // Remove rows that have scrolled out of the buffered viewport (except
+        // the one with keyboard focus, so focus isn't lost while scrolling)
+        const activeElement = document.activeElement;
+        this.renderedRowIds.forEach(key => {
+            if (visibleKeys.has(key)) return;
+            const elements = this.renderedRowElements.get(key);
+            if (elements && (elements.left.contains(activeElement) || elements.timeline.contains(activeElement))) return;
+            elements?.left.remove();
+            elements?.timeline.remove();
+            this.renderedRowElements.delete(key);
+            this.renderedRowIds.delete(key);
+            this.rowPositions.delete(key);
+        });
+
+        // Add newly visible rows. Walk bottom-up so each new row can be inserted
+        // before its rendered successor, keeping DOM (and tab) order = row order.
+        let nextElements: { row: RowData; left: HTMLDivElement; timeline: HTMLDivElement } | undefined;
+        for (let i = visibleIndices.length - 1; i >= 0; i--) {
+            const row = rows[visibleIndices[i]];
+            let elements = this.renderedRowElements.get(row.key);
+            if (!elements) {
+                elements = {
+                    row,
+                    left: this.renderLeftRow(leftInner, row),
+                    timeline: this.renderTimelineRow(timelineInner, row, dayWidth)
+                };
+                if (nextElements) {
+                    leftInner.node()?.insertBefore(elements.left, nextElements.left);
+                    timelineInner.node()?.insertBefore(elements.timeline, nextElements.timeline);
+                }
+                this.applyRowSelectionState(elements);
+                this.renderedRowElements.set(row.key, elements);
+                this.renderedRowIds.add(row.key);
+                this.rowPositions.set(row.key, { y: row.y, height: row.height });
+            }
+            nextElements = elements;
+        }
+        this.updateTabStop();
+    }
+
+    private scheduleViewportUpdate(): void {
+        if (this.scrollFrame) return;
+        this.scrollFrame = requestAnimationFrame(() => {
+            this.scrollFrame = 0;
+            if (this.isTimeWindowStale()) {
+                this.renderTimeWindow();
+            }
+            this.renderVisibleRows();
+        });
     }
 
     private calculateDayWidth(): number {
@@ -733,218 +1760,758 @@ export class RoadmapVisual implements IVisual {
     }
 
     private getRowHeight(type: string): number {
-        const heights = ROW_HEIGHTS[this.settings.rowDensity] || ROW_HEIGHTS.normal;
-        return heights[type] || heights.Feature;
+        return this.typeRegistry.getRowHeight(type, this.settings.rowDensity);
     }
 
     private getBarHeight(type: string): number {
-        const heights = BAR_HEIGHTS[this.settings.rowDensity] || BAR_HEIGHTS.normal;
-        return heights[type] || heights.Feature;
+        return this.typeRegistry.getBarHeight(type, this.settings.rowDensity);
     }
 
-    private buildRows(): RowData[] {
+    /**
+     * Build the visible rows.
+     *
+     * @param collapsed - Keys of collapsed rows (defaults to the current state)
+     */
+    private buildRows(collapsed: Set<string> = this.collapsed): RowData[] {
         const rows: RowData[] = [];
-        let y = 0;
-
-        // Filter work items by level visibility
-        const visibleItems = this.workItems.filter(w => {
-            if (w.type === "Epic" && !this.settings.showEpics) return false;
-            if (w.type === "Release" && !this.settings.showReleases) return false;
-            if (w.type === "Feature" && !this.settings.showFeatures) return false;
-            if (w.type === "Milestone" && !this.settings.showMilestones) return false;
+
+        // Filter work items by type visibility, search, tags and, optionally, total float
+        const tagFilter = this.getTagFilter();
+        const isVisible = (w: WorkItem): boolean => {
+            if (!this.typeRegistry.isVisible(w.type)) return false;
+            if (this.searchVisibleIds && !this.searchVisibleIds.has(w.id)) return false;
+            if (!TagService.matchesFilter(w.tagList, tagFilter)) return false;
+            if (this.settings.filterByFloat) {
+                const float = this.schedule.totalFloat.get(w.id);
+                if (float === undefined || float > this.settings.maxFloatDays) return false;
+            }
             return true;
+        };
+        const compareSiblings = (a: WorkItem, b: WorkItem) => this.compareItems(a, b);
+
+        const groupByFields = this.getGroupByFields();
+        if (groupByFields.length === 0) {
+            // Group by parent hierarchy; hidden types are spliced out and their
+            // children move up to the nearest visible ancestor
+            const roots = HierarchyBuilder.build(this.workItems, isVisible, compareSiblings);
+            this.appendTreeRows(rows, roots, 0, 0, collapsed);
+        } else {
+            // Swimlanes by one to three fields (e.g. Area Path, then Iteration)
+            this.appendGroupRows(rows, this.workItems.filter(isVisible), groupByFields, [], 0, collapsed);
+        }
+        return rows;
+    }
+
+    /**
+     * Append the swimlanes for the first grouping field, with the nested
+     * swimlanes for the remaining fields inside each one.
+     *
+     * @param path - Key parts of the enclosing swimlanes
+     * @returns The y position after the last appended row
+     */
+    private appendGroupRows(rows: RowData[], items: WorkItem[], fields: string[], path: string[], y: number, collapsed: Set<string>): number {
+        const [field, ...innerFields] = fields;
+        this.getGroupNodes(items, field).forEach(node => {
+            y = this.appendGroupNode(rows, node, innerFields, path, y, collapsed);
         });
+        return y;
+    }
 
-        if (this.settings.groupBy === "epic") {
-            // Group by Epic (parent hierarchy)
-            const epics = visibleItems.filter(w => w.type === "Epic");
-            const nonEpicItems = visibleItems.filter(w => w.type !== "Epic");
-
-            // Show epics with children
-            epics.forEach(epic => {
-                const isCollapsed = this.collapsed.has(epic.id) && !this.settings.pdfMode;
-                const children = nonEpicItems.filter(w => w.parentId === epic.id);
-                const h = this.getRowHeight("Epic");
-                rows.push({ type: "Epic", data: epic, y, height: h, collapsed: isCollapsed, isParent: true, childCount: children.length, level: 0 });
-                y += h;
-                if (!isCollapsed && this.settings.showHierarchy) {
-                    // First show milestones (they're key dates)
-                    children.filter(c => c.type === "Milestone").forEach(m => {
-                        const mh = this.getRowHeight("Milestone");
-                        rows.push({ type: "Milestone", data: m, y, height: mh, level: 1 });
-                        y += mh;
-                    });
-                    // Then show features
-                    children.filter(c => c.type === "Feature").forEach(f => {
-                        const fh = this.getRowHeight("Feature");
-                        rows.push({ type: "Feature", data: f, y, height: fh, level: 1 });
-                        y += fh;
-                    });
-                }
-            });
+    /**
+     * Append a swimlane's GroupHeader row, then its own items (grouped by
+     * the remaining fields, or as a hierarchy at the innermost level) and
+     * its nested path nodes.
+     *
+     * @returns The y position after the last appended row
+     */
+    private appendGroupNode(rows: RowData[], node: GroupNode, innerFields: string[], path: string[], y: number, collapsed: Set<string>): number {
+        const groupPath = [...path, node.keyPart];
+        const key = this.getGroupRowKey(groupPath);
+        const isCollapsed = collapsed.has(key) && !this.settings.pdfMode;
+        const gh = this.getRowHeight("GroupHeader");
+        rows.push({
+            key,
+            type: "GroupHeader",
+            name: node.name,
+            y,
+            height: gh,
+            collapsed: isCollapsed,
+            isParent: true,
+            childCount: node.allItems.length,
+            level: path.length,
+            slip: BaselineService.summarize(node.allItems),
+            span: this.getDateSpan(node.allItems)
+        });
+        y += gh;
+        if (isCollapsed) return y;
 
-            // Show orphan items (no parent) if epics are hidden
-            if (!this.settings.showEpics) {
-                nonEpicItems.forEach(item => {
-                    const h = this.getRowHeight(item.type);
-                    rows.push({ type: item.type, data: item, y, height: h, level: 0 });
-                    y += h;
-                });
+        if (node.items.length > 0) {
+            if (innerFields.length > 0) {
+                y = this.appendGroupRows(rows, node.items, innerFields, groupPath, y, collapsed);
             } else {
-                // Show standalone milestones (milestones without a parent) at top level
-                // These are typically added via the separate Milestone Title/Target Date fields
-                const standaloneMilestones = nonEpicItems.filter(w =>
-                    w.type === "Milestone" && !w.parentId
-                );
-                if (standaloneMilestones.length > 0) {
-                    standaloneMilestones.forEach(m => {
-                        const mh = this.getRowHeight("Milestone");
-                        rows.push({ type: "Milestone", data: m, y, height: mh, level: 0 });
-                        y += mh;
-                    });
-                }
+                const itemIds = new Set(node.items.map(item => item.id));
+                const roots = HierarchyBuilder.build(this.workItems, w => itemIds.has(w.id), (a, b) => this.compareItems(a, b));
+                // Items under several tag swimlanes get a row in each, keyed by swimlane
+                const keyPrefix = this.getGroupByFields().includes("tags") ? `${key}\u001e` : "";
+                y = this.appendTreeRows(rows, roots, y, groupPath.length, collapsed, keyPrefix);
             }
-        } else {
-            // Group by another field (Area Path, Iteration, Assigned To, etc.)
-            const groups = new Map<string, WorkItem[]>();
-            visibleItems.forEach(item => {
-                const key = this.getGroupKey(item);
-                if (!groups.has(key)) groups.set(key, []);
-                groups.get(key)!.push(item);
+        }
+        node.children.forEach(child => {
+            y = this.appendGroupNode(rows, child, innerFields, groupPath, y, collapsed);
+        });
+        return y;
+    }
+
+    /**
+     * Swimlanes for one grouping field: a tree of path nodes for Area and
+     * Iteration Path, one group per tag (items with several tags appear in
+     * each), otherwise one group per value, sorted by name.
+     */
+    private getGroupNodes(items: WorkItem[], field: string): GroupNode[] {
+        if (field === "areaPath" || field === "iterationPath") {
+            const toGroupNode = (node: PathNode<WorkItem>): GroupNode => ({
+                name: node.name || this.t("Visual_Unassigned"),
+                keyPart: node.path,
+                items: node.items,
+                allItems: node.allItems,
+                children: node.children.map(toGroupNode)
             });
+            const options = { rootDepth: this.settings.pathRootDepth, maxDepth: this.settings.pathMaxDepth };
+            return PathTreeBuilder.build(items, item => item[field], options).map(toGroupNode);
+        }
 
-            [...groups.entries()].sort((a, b) => a[0].localeCompare(b[0])).forEach(([name, items]) => {
-                const isCollapsed = this.collapsed.has(`grp-${name}`) && !this.settings.pdfMode;
-                const gh = this.getRowHeight("GroupHeader");
-                rows.push({ type: "GroupHeader", name, y, height: gh, collapsed: isCollapsed, isParent: true, childCount: items.length, level: 0 });
-                y += gh;
-
-                if (!isCollapsed && this.settings.showHierarchy) {
-                    // Sort by type: Epic first, then Milestone, then Feature
-                    items.sort((a, b) => TYPES.indexOf(a.type as typeof TYPES[number]) - TYPES.indexOf(b.type as typeof TYPES[number])).forEach(item => {
-                        const h = this.getRowHeight(item.type);
-                        rows.push({ type: item.type, data: item, y, height: h, level: 1 });
-                        y += h;
-                    });
-                }
+        const groups = new Map<string, WorkItem[]>();
+        const addToGroup = (name: string, item: WorkItem) => {
+            if (!groups.has(name)) groups.set(name, []);
+            groups.get(name)!.push(item);
+        };
+        if (field === "tags") {
+            // Group by the first spelling of each tag, ignoring case
+            const names = new Map(TagService.collect(items.map(item => item.tagList)).map(tag => [TagService.key(tag), tag]));
+            items.forEach(item => {
+                if (item.tagList.length === 0) addToGroup(this.t("Visual_Unassigned"), item);
+                item.tagList.forEach(tag => addToGroup(names.get(TagService.key(tag)) || tag, item));
             });
+        } else {
+            items.forEach(item => addToGroup(this.getGroupKey(item, field), item));
         }
-        return rows;
+        return [...groups.entries()]
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([name, groupItems]) => ({ name, keyPart: name, items: groupItems, allItems: groupItems, children: [] }));
     }
 
-    private getGroupKey(item: WorkItem): string {
-        const fieldMap: { [key: string]: keyof WorkItem } = {
-            areaPath: "areaPath",
-            iterationPath: "iterationPath",
-            assignedTo: "assignedTo",
-            state: "state",
-            priority: "priority",
-            tags: "tags"
-        };
-        const field = fieldMap[this.settings.groupBy] || "areaPath";
-        const value = item[field];
-        if (!value) return "Unassigned";
-        if (field === "areaPath" || field === "iterationPath") {
-            const parts = String(value).split("\\");
-            return parts[parts.length - 1] || String(value);
+    /**
+     * Earliest start and latest target date across items, or undefined
+     * when none are dated.
+     */
+    private getDateSpan(items: WorkItem[]): { start: Date; end: Date } | undefined {
+        let start: Date | null = null, end: Date | null = null;
+        for (const item of items) {
+            const itemStart = item.startDate || item.targetDate;
+            const itemEnd = item.targetDate || item.startDate;
+            if (itemStart && (!start || itemStart < start)) start = itemStart;
+            if (itemEnd && (!end || itemEnd > end)) end = itemEnd;
         }
-        return String(value);
+        return start && end ? { start, end } : undefined;
     }
 
-    private getGroupByLabel(): string {
-        const labelMap: { [key: string]: string } = {
-            epic: "Epic",
-            areaPath: "Area",
-            iterationPath: "Iteration",
-            assignedTo: "Assigned To",
-            state: "State",
-            priority: "Priority",
-            tags: "Tags"
+    /**
+     * Append rows for a work item tree, depth-first, skipping the
+     * descendants of collapsed nodes. With showHierarchy off the tree is
+     * flattened into a single, non-collapsible level.
+     *
+     * @param keyPrefix - Prefix for the row keys, so an item shown in several
+     *   swimlanes has a unique row in each
+     * @returns The y position after the last appended row
+     */
+    private appendTreeRows(rows: RowData[], nodes: TreeNode<WorkItem>[], y: number, baseLevel: number, collapsed: Set<string>, keyPrefix: string = ""): number {
+        const showHierarchy = this.settings.showHierarchy;
+        nodes.forEach(node => {
+            const item = node.item;
+            const key = `${keyPrefix}${item.id}`;
+            const isParent = showHierarchy && node.children.length > 0;
+            const isCollapsed = isParent && collapsed.has(key) && !this.settings.pdfMode;
+            const h = this.getRowHeight(item.type);
+            rows.push({
+                key,
+                type: item.type,
+                data: item,
+                y,
+                height: h,
+                collapsed: isCollapsed,
+                isParent,
+                childCount: isParent ? node.children.length : undefined,
+                level: baseLevel + (showHierarchy ? node.depth : 0),
+                slip: isParent ? BaselineService.summarize(this.getDescendants(node)) : undefined
+            });
+            y += h;
+            if (!isCollapsed) {
+                y = this.appendTreeRows(rows, node.children, y, baseLevel, collapsed, keyPrefix);
+            }
+        });
+        return y;
+    }
+
+    private getDescendants(node: TreeNode<WorkItem>): WorkItem[] {
+        return node.children.flatMap(child => [child.item, ...this.getDescendants(child)]);
+    }
+
+    /**
+     * Sibling order for the Sort By setting. Items without a value for the
+     * sort key go last; ties fall back to type order.
+     */
+    private compareItems(a: WorkItem, b: WorkItem): number {
+        const byType = this.typeRegistry.getRank(a.type) - this.typeRegistry.getRank(b.type);
+        const sortValue = (item: WorkItem): number | undefined => {
+            switch (this.settings.sortBy) {
+            case "startDate": return (item.startDate || item.targetDate)?.getTime();
+            case "targetDate": return item.targetDate?.getTime();
+            case "float": return this.schedule.totalFloat.get(item.id);
+            default: return undefined;
+            }
         };
-        return labelMap[this.settings.groupBy] || "Epic";
+        const valueA = sortValue(a), valueB = sortValue(b);
+        if (valueA === valueB) return byType;
+        if (valueA === undefined) return 1;
+        if (valueB === undefined) return -1;
+        return valueA - valueB;
     }
 
-    private renderLeftRow(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData): void {
-        const indent = (row.level || 0) * LAYOUT.INDENT_PER_LEVEL;
+    /**
+     * Active swimlane fields, outermost first. Empty when grouping by the
+     * parent hierarchy; nested levels repeating an outer field are skipped.
+     */
+    private getGroupByFields(): string[] {
+        if (this.settings.groupBy === "epic") return [];
+        const fields = [this.settings.groupBy];
+        for (const field of [this.settings.secondaryGroupBy, this.settings.tertiaryGroupBy]) {
+            if (field === GROUP_BY_NONE) break;
+            if (field !== "epic" && !fields.includes(field)) fields.push(field);
+        }
+        return fields;
+    }
+
+    /**
+     * Tag filter from the Include / Exclude Tags settings.
+     */
+    private getTagFilter(): TagFilter {
+        return {
+            include: this.settings.includeTags.map(tag => TagService.key(tag)),
+            exclude: this.settings.excludeTags.map(tag => TagService.key(tag))
+        };
+    }
+
+    /**
+     * Row key of a swimlane from its key parts, outermost first. A single
+     * level keeps the "grp-<name>" key saved by earlier versions.
+     */
+    private getGroupRowKey(path: string[]): string {
+        return `grp-${path.join("\u001f")}`;
+    }
+
+    /**
+     * Swimlane prefix of an item row's key ("" outside tag swimlanes).
+     */
+    private getRowKeyPrefix(row: RowData): string {
+        return row.data ? row.key.slice(0, row.key.length - row.data.id.length) : "";
+    }
+
+    /**
+     * Keys of the rows above an item's row (swimlanes and parents), as if
+     * every row were expanded.
+     */
+    private getRowAncestorKeys(itemId: string): string[] {
+        const path: RowData[] = [];
+        for (const row of this.buildRows(new Set())) {
+            const level = row.level || 0;
+            path.length = level;
+            path[level] = row;
+            if (row.data?.id === itemId) return path.slice(0, level).map(ancestor => ancestor.key);
+        }
+        return [];
+    }
+
+    private getGroupKey(item: WorkItem, groupBy: string): string {
+        const fieldMap: { [key: string]: keyof WorkItem } = {
+            areaPath: "areaPath",
+            iterationPath: "iterationPath",
+            assignedTo: "assignedTo",
+            state: "state",
+            priority: "priority"
+        };
+        const field = fieldMap[groupBy] || "areaPath";
+        const value = item[field];
+        return value ? String(value) : this.t("Visual_Unassigned");
+    }
+
+    private getGroupByLabel(): string {
+        const fields = this.getGroupByFields();
+        return (fields.length > 0 ? fields : ["epic"])
+            .map(field => {
+                const option = GROUP_BY_OPTIONS.find(o => o.value === field) || GROUP_BY_OPTIONS[0];
+                return this.t(option.labelKey);
+            })
+            .join(" › ");
+    }
+
+    private appendToolbarButton(
+        container: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+        panel: ToolbarPanel,
+        icon: string,
+        label: string
+    ): void {
+        const button = container.append("button")
+            .classed("toolbar-btn", true)
+            .attr("data-panel", panel)
+            .attr("aria-haspopup", "dialog");
+        button.append("span").classed("btn-icon", true).attr("aria-hidden", "true").text(icon);
+        button.append("span").text(label);
+        button.on("click", () => this.setOpenPanel(this.openPanel === panel ? null : panel));
+    }
+
+    private setOpenPanel(panel: ToolbarPanel | null): void {
+        this.openPanel = panel;
+        this.renderToolbarPanel();
+    }
+
+    private renderToolbarPanel(): void {
+        if (!this.toolbar) return;
+        const panel = this.openPanel;
+
+        this.toolbar.selectAll(".toolbar-popover").remove();
+        this.toolbar.selectAll<HTMLButtonElement, unknown>(".toolbar-btn[data-panel]").each(function() {
+            const isOpen = this.getAttribute("data-panel") === panel;
+            d3.select(this).classed("active", isOpen).attr("aria-expanded", isOpen ? "true" : "false");
+        });
+        if (!panel) return;
+
+        const popover = this.toolbar.append("div")
+            .classed("toolbar-popover", true)
+            .attr("role", "dialog")
+            .on("keydown", (event: KeyboardEvent) => {
+                if (event.key === "Escape") {
+                    event.preventDefault();
+                    this.setOpenPanel(null);
+                }
+            });
+
+        switch (panel) {
+        case "groupBy":
+            this.renderGroupByPanel(popover);
+            break;
+        case "colours":
+            this.renderColoursPanel(popover);
+            break;
+        case "settings":
+            this.renderSettingsPanel(popover);
+            break;
+        case "issues":
+            this.renderIssuesPanel(popover);
+            break;
+        case "expand":
+            this.renderExpandPanel(popover);
+            break;
+        }
+    }
+
+    private renderIssuesPanel(popover: d3.Selection<HTMLDivElement, unknown, null, undefined>): void {
+        popover.attr("aria-label", this.t("Visual_Issues_Title")).classed("issues-popover", true);
+        popover.append("div").classed("popover-title", true).text(this.t("Visual_Issues_Title"));
+        const itemsById = new Map(this.workItems.map(item => [item.id, item]));
+        this.validation.issues.forEach(issue => {
+            const item = itemsById.get(issue.itemId);
+            if (!item) return;
+            const option = popover.append("button")
+                .classed("popover-option", true)
+                .classed("issue-option", true)
+                .on("click", () => {
+                    this.setOpenPanel(null);
+                    this.scrollToItem(item.id);
+                });
+            option.append("span").classed("issue-item", true).text(item.workItemId > 0 ? `${item.workItemId}: ${item.title}` : item.title);
+            option.append("span").classed("issue-message", true).text(this.getIssueMessage(issue));
+        });
+    }
+
+    private renderExpandPanel(popover: d3.Selection<HTMLDivElement, unknown, null, undefined>): void {
+        popover.attr("aria-label", this.t("Visual_Expand_Title"));
+        popover.append("div").classed("popover-title", true).text(this.t("Visual_Expand_Title"));
+        const parents = this.getParentRows();
+        const addOption = (label: string, collapsed: RowData[]) => {
+            popover.append("button")
+                .classed("popover-option", true)
+                .text(label)
+                .on("click", () => this.setCollapsed(collapsed.map(row => row.key)));
+        };
+
+        addOption(this.t("Visual_Expand_All"), []);
+        addOption(this.t("Visual_Collapse_All"), parents);
+        // Level 1 is the top-level rows; level N shows N levels of rows
+        const deepest = Math.max(...parents.map(row => row.level));
+        for (let level = 2; level <= deepest + 1; level++) {
+            addOption(this.t("Visual_Expand_ToLevel", this.formatNumber(level)), parents.filter(row => row.level >= level - 1));
+        }
+    }
+
+    private renderGroupByPanel(popover: d3.Selection<HTMLDivElement, unknown, null, undefined>): void {
+        popover.attr("aria-label", this.t("Visual_GroupBy")).classed("group-by-popover", true);
+        const levels: Array<{ property: "groupBy" | "secondaryGroupBy" | "tertiaryGroupBy"; titleKey: string }> = [
+            { property: "groupBy", titleKey: "Visual_GroupBy" },
+            { property: "secondaryGroupBy", titleKey: "Visual_GroupBy_ThenBy" },
+            { property: "tertiaryGroupBy", titleKey: "Visual_GroupBy_ThenBy" },
+        ];
+        const fields = this.getGroupByFields();
+
+        // Each nested level is offered once the level above it is grouping
+        levels.forEach(({ property, titleKey }, index) => {
+            if (index > fields.length) return;
+            const section = popover.append("div").classed("popover-section", true).attr("role", "group");
+            const title = section.append("div").classed("popover-title", true).text(this.t(titleKey));
+            section.attr("aria-label", title.text());
+
+            const options = index === 0
+                ? GROUP_BY_OPTIONS.map(option => ({ value: option.value as string, labelKey: option.labelKey as string }))
+                : [
+                    { value: GROUP_BY_NONE, labelKey: "Visual_GroupBy_None" },
+                    ...GROUP_BY_OPTIONS.filter(option => option.value !== "epic" && !fields.slice(0, index).includes(option.value)),
+                ];
+            const selected = index === 0 ? this.settings.groupBy : fields[index] ?? GROUP_BY_NONE;
+            options.forEach(option => {
+                const isActive = selected === option.value;
+                section.append("button")
+                    .classed("popover-option", true)
+                    .classed("active", isActive)
+                    .attr("aria-pressed", isActive ? "true" : "false")
+                    .text(this.t(option.labelKey))
+                    .on("click", () => {
+                        this.settings[property] = option.value;
+                        this.persistSetting("organization", { [property]: option.value });
+                    });
+            });
+        });
+
+        // Path tree depth, when grouping by Area or Iteration Path
+        if (!fields.includes("areaPath") && !fields.includes("iterationPath")) return;
+        const section = popover.append("div").classed("popover-section", true).attr("role", "group");
+        const title = section.append("div").classed("popover-title", true).text(this.t("Visual_GroupBy_PathLevels"));
+        section.attr("aria-label", title.text());
+        const depthFields: Array<{ property: "pathRootDepth" | "pathMaxDepth"; labelKey: string }> = [
+            { property: "pathRootDepth", labelKey: "Visual_GroupBy_PathRootDepth" },
+            { property: "pathMaxDepth", labelKey: "Visual_GroupBy_PathMaxDepth" },
+        ];
+        depthFields.forEach(({ property, labelKey }) => {
+            const field = section.append("label").classed("popover-field", true);
+            field.append("span").text(this.t(labelKey));
+            field.append("input")
+                .attr("type", "number")
+                .attr("min", "0")
+                .attr("step", "1")
+                .classed("popover-number", true)
+                .property("value", String(this.settings[property]))
+                .on("change", (event: Event) => {
+                    const value = Math.floor(Number((event.target as HTMLInputElement).value));
+                    if (!isFinite(value) || value < 0) return;
+                    this.settings[property] = value;
+                    this.persistSetting("organization", { [property]: value });
+                });
+        });
+    }
+
+    private renderColoursPanel(popover: d3.Selection<HTMLDivElement, unknown, null, undefined>): void {
+        popover.attr("aria-label", this.t("Visual_Toolbar_Colours"));
+        popover.append("div").classed("popover-title", true).text(this.t("Visual_Toolbar_Colours"));
+        this.typeRegistry.types.forEach(config => {
+            const field = popover.append("label").classed("popover-field", true);
+            field.append("span").text(config.name);
+            field.append("input")
+                .attr("type", "color")
+                .property("value", config.color)
+                .on("change", (event: Event) => {
+                    const color = (event.target as HTMLInputElement).value;
+                    config.color = color;
+                    this.persistTypeSetting(config.name, { color });
+                });
+        });
+    }
+
+    private renderSettingsPanel(popover: d3.Selection<HTMLDivElement, unknown, null, undefined>): void {
+        popover.attr("aria-label", this.t("Visual_Toolbar_Settings"));
+        popover.append("div").classed("popover-title", true).text(this.t("Visual_Toolbar_Settings"));
+
+        const densityField = popover.append("label").classed("popover-field", true);
+        densityField.append("span").text(this.t("Visual_Settings_RowDensity"));
+        const densitySelect = densityField.append("select")
+            .on("change", (event: Event) => {
+                const density = (event.target as HTMLSelectElement).value as RowDensity;
+                this.settings.rowDensity = density;
+                this.persistSetting("display", { rowDensity: density });
+            });
+        ROW_DENSITIES.forEach(density => {
+            densitySelect.append("option").attr("value", density).text(this.t(ROW_DENSITY_LABEL_KEYS[density]));
+        });
+        densitySelect.property("value", this.settings.rowDensity);
+
+        const labelField = popover.append("label").classed("popover-field", true);
+        labelField.append("span").text(this.t("Visual_Settings_MilestoneLabels"));
+        const labelSelect = labelField.append("select")
+            .on("change", (event: Event) => {
+                const position = (event.target as HTMLSelectElement).value as MilestoneLabelPosition;
+                this.settings.milestoneLabelPosition = position;
+                this.persistSetting("milestones", { labelPosition: position });
+            });
+        MILESTONE_LABEL_POSITIONS.forEach(position => {
+            labelSelect.append("option").attr("value", position).text(this.t(MILESTONE_LABEL_POSITION_LABEL_KEYS[position]));
+        });
+        labelSelect.property("value", this.settings.milestoneLabelPosition);
+
+        const sortField = popover.append("label").classed("popover-field", true);
+        sortField.append("span").text(this.t("Visual_Settings_SortBy"));
+        const sortSelect = sortField.append("select")
+            .on("change", (event: Event) => {
+                const sortBy = (event.target as HTMLSelectElement).value as SortByOption;
+                this.settings.sortBy = sortBy;
+                this.persistSetting("organization", { sortBy });
+            });
+        SORT_BY_OPTIONS.forEach(option => {
+            sortSelect.append("option").attr("value", option.value).text(this.t(option.labelKey));
+        });
+        sortSelect.property("value", this.settings.sortBy);
+
+        const dependencyToggles: Array<{ key: "showDependencies" | "showParentChild" | "showPredecessors"; property: string; label: string }> = [
+            { key: "showDependencies", property: "show", label: this.t("Visual_Settings_ShowDependencies") },
+            { key: "showParentChild", property: "showParentChild", label: this.t("Visual_Settings_ParentChildLinks") },
+            { key: "showPredecessors", property: "showPredecessors", label: this.t("Visual_Settings_PredecessorLinks") },
+        ];
+        dependencyToggles.forEach(({ key, property, label }) => {
+            const field = popover.append("label").classed("popover-field", true).classed("popover-checkbox", true);
+            field.append("input")
+                .attr("type", "checkbox")
+                .property("checked", this.settings[key])
+                .on("change", (event: Event) => {
+                    const checked = (event.target as HTMLInputElement).checked;
+                    this.settings[key] = checked;
+                    this.persistSetting("dependencies", { [property]: checked });
+                });
+            field.append("span").text(label);
+        });
+
+        const baselineField = popover.append("label").classed("popover-field", true).classed("popover-checkbox", true);
+        baselineField.append("input")
+            .attr("type", "checkbox")
+            .property("checked", this.settings.showBaseline)
+            .on("change", (event: Event) => {
+                const checked = (event.target as HTMLInputElement).checked;
+                this.settings.showBaseline = checked;
+                this.persistSetting("baseline", { show: checked });
+            });
+        baselineField.append("span").text(this.t("Visual_Settings_ShowBaseline"));
+
+        const progressField = popover.append("label").classed("popover-field", true).classed("popover-checkbox", true);
+        progressField.append("input")
+            .attr("type", "checkbox")
+            .property("checked", this.settings.showProgress)
+            .on("change", (event: Event) => {
+                const checked = (event.target as HTMLInputElement).checked;
+                this.settings.showProgress = checked;
+                this.persistSetting("progress", { show: checked });
+            });
+        progressField.append("span").text(this.t("Visual_Settings_ShowProgress"));
+
+        const criticalField = popover.append("label").classed("popover-field", true).classed("popover-checkbox", true);
+        criticalField.append("input")
+            .attr("type", "checkbox")
+            .property("checked", this.settings.showCriticalPath)
+            .on("change", (event: Event) => {
+                const checked = (event.target as HTMLInputElement).checked;
+                this.settings.showCriticalPath = checked;
+                this.persistSetting("criticalPath", { show: checked });
+            });
+        criticalField.append("span").text(this.t("Visual_Settings_CriticalPath"));
+
+        const floatField = popover.append("label").classed("popover-field", true).classed("popover-checkbox", true);
+        floatField.append("input")
+            .attr("type", "checkbox")
+            .property("checked", this.settings.filterByFloat)
+            .on("change", (event: Event) => {
+                const checked = (event.target as HTMLInputElement).checked;
+                this.settings.filterByFloat = checked;
+                this.persistSetting("criticalPath", { filterByFloat: checked });
+            });
+        floatField.append("span").text(this.t("Visual_Settings_FloatFilter"));
+        floatField.append("input")
+            .attr("type", "number")
+            .attr("step", "1")
+            .attr("aria-label", this.t("Visual_Settings_MaxFloat"))
+            .classed("popover-number", true)
+            .property("value", String(this.settings.maxFloatDays))
+            .on("change", (event: Event) => {
+                const maxFloatDays = Number((event.target as HTMLInputElement).value);
+                if (!isFinite(maxFloatDays)) return;
+                this.settings.maxFloatDays = maxFloatDays;
+                this.persistSetting("criticalPath", { maxFloatDays });
+            });
+        floatField.append("span").text(this.t("Visual_Settings_FloatUnit"));
+    }
+
+    private renderLeftRow(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData): HTMLDivElement {
+        const indent = (row.level || 0) * LAYOUT.INDENT_PER_LEVEL;
         const rowEl = container.append("div")
             .classed("row", true)
+            .attr("data-row-key", row.key)
+            .style("top", `${row.y}px`)
             .classed("row-parent", row.isParent || false)
             .classed("row-group-header", row.type === "GroupHeader")
+            .classed("row-subgroup-header", row.type === "GroupHeader" && (row.level || 0) > 0)
             .classed("row-child", (row.level || 0) > 0)
             .style("height", `${row.height}px`)
-            .style("padding-left", `${LAYOUT.ROW_PADDING + indent}px`);
+            .style("padding-inline-start", `${LAYOUT.ROW_PADDING + indent}px`);
+
+        // Rows and items are reached with the arrow keys (see handleGridKeydown)
+        rowEl.attr("tabindex", "-1");
 
         if (row.type === "GroupHeader") {
             rowEl
                 .attr("role", "button")
-                .attr("aria-expanded", row.collapsed ? "false" : "true")
-                .attr("tabindex", "0");
-            rowEl.append("span").classed("row-chevron", true).attr("aria-hidden", "true").text(row.collapsed ? "▶" : "▼");
+                .attr("aria-expanded", row.collapsed ? "false" : "true");
+            rowEl.append("span").classed("row-chevron", true).attr("aria-hidden", "true").text(this.getChevron(row.collapsed));
             rowEl.append("span").classed("row-title", true).text(row.name || "");
-            rowEl.append("span").classed("row-count", true).attr("aria-label", `${row.childCount || 0} items`).text(String(row.childCount || 0));
-            rowEl.on("click", () => this.toggleCollapse(`grp-${row.name}`));
-            rowEl.on("keydown", (event: KeyboardEvent) => {
-                if (event.key === "Enter" || event.key === " ") {
-                    event.preventDefault();
-                    this.toggleCollapse(`grp-${row.name}`);
-                }
-            });
+            this.appendSlipSummary(rowEl, row);
+            rowEl.append("span").classed("row-count", true).attr("aria-label", this.tCount("Visual_ItemCount", row.childCount || 0)).text(this.formatNumber(row.childCount || 0));
+            rowEl.on("click", () => this.toggleCollapse(row.key));
         } else if (row.data) {
+            const isMatch = this.searchMatchIds.has(row.data.id);
+            rowEl
+                .classed("search-match", isMatch)
+                .classed("search-current", isMatch && this.searchMatches[this.searchIndex] === row.data.id);
             rowEl.append("div").classed("row-indicator", true).attr("aria-hidden", "true").style("background", this.getColor(row.type));
             if (row.isParent) {
                 rowEl
                     .attr("role", "button")
-                    .attr("aria-expanded", row.collapsed ? "false" : "true")
-                    .attr("tabindex", "0");
-                rowEl.append("span").classed("row-chevron", true).attr("aria-hidden", "true").text(row.collapsed ? "▶" : "▼");
+                    .attr("aria-expanded", row.collapsed ? "false" : "true");
+                rowEl.append("span").classed("row-chevron", true).attr("aria-hidden", "true").text(this.getChevron(row.collapsed));
             }
             // For standalone milestones (negative ID), show a diamond icon instead of ID
             const isStandaloneMilestone = row.data.workItemId < 0;
             if (isStandaloneMilestone) {
                 rowEl.append("span").classed("row-id", true).classed("row-id-milestone", true).text("◆");
             } else {
-                rowEl.append("span").classed("row-id", true).text(String(row.data.workItemId));
+                this.appendSearchHighlight(rowEl.append("span").classed("row-id", true), String(row.data.workItemId), isMatch);
             }
-            rowEl.append("span").classed("row-title", true).text(row.data.title);
+            this.appendSearchHighlight(rowEl.append("span").classed("row-title", true), row.data.title, isMatch);
+            if (this.settings.showTagChips) this.appendTagChips(rowEl, row.data.tagList);
+            const issues = this.validation.itemIssues.get(row.data.id);
+            if (issues) {
+                rowEl.append("span")
+                    .classed("row-warning", true)
+                    .attr("role", "img")
+                    .attr("aria-label", this.tCount("Visual_ScheduleIssueCount", issues.length))
+                    .text("⚠");
+            }
+            this.appendSlipSummary(rowEl, row);
             if (row.childCount !== undefined && row.childCount > 0) {
-                rowEl.append("span").classed("row-count", true).attr("aria-label", `${row.childCount} child items`).text(String(row.childCount));
+                rowEl.append("span").classed("row-count", true).attr("aria-label", this.tCount("Visual_ChildItemCount", row.childCount)).text(this.formatNumber(row.childCount));
             }
             if (row.isParent) {
-                rowEl.on("click", () => this.toggleCollapse(row.data!.id));
-                rowEl.on("keydown", (event: KeyboardEvent) => {
-                    if (event.key === "Enter" || event.key === " ") {
-                        event.preventDefault();
-                        this.toggleCollapse(row.data!.id);
-                    }
-                });
+                rowEl.on("click", () => this.toggleCollapse(row.key));
             }
             rowEl.on("contextmenu", (event: MouseEvent) => {
                 event.preventDefault();
                 event.stopPropagation();
                 if (row.data?.selectionId) this.selectionManager.showContextMenu(row.data.selectionId, { x: event.clientX, y: event.clientY });
             });
-            if (!row.isParent) rowEl.on("click", (event: MouseEvent) => {
-                if (row.data?.selectionId) this.selectionManager.select(row.data.selectionId, event.ctrlKey || event.metaKey);
-            });
+            if (!row.isParent) rowEl.on("click", (event: MouseEvent) => this.selectRow(row, event));
+        }
+        return rowEl.node()!;
+    }
+
+    /**
+     * Total slip of the items under a group header or parent row.
+     */
+    private appendSlipSummary(rowEl: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData): void {
+        if (!this.settings.showBaseline || !row.slip || row.slip.slippedCount === 0) return;
+        const { slippedCount, totalSlipDays } = row.slip;
+        rowEl.append("span")
+            .classed("row-slip", true)
+            .attr("role", "img")
+            .attr("aria-label", this.tCount("Visual_SlipSummary", slippedCount, this.formatDays(totalSlipDays)))
+            .text(this.formatSignedDays(totalSlipDays));
+    }
+
+    /**
+     * Small coloured chips for an item's tags, after its title.
+     */
+    private appendTagChips(rowEl: d3.Selection<HTMLDivElement, unknown, null, undefined>, tags: string[]): void {
+        if (tags.length === 0) return;
+        const chips = rowEl.append("span")
+            .classed("row-tags", true)
+            .attr("aria-label", this.t("Visual_Tags_Label", tags.join(", ")));
+        tags.forEach(tag => {
+            chips.append("span")
+                .classed("tag-chip", true)
+                .attr("aria-hidden", "true")
+                .style("--tag-color", TagService.getColor(tag))
+                .text(tag);
+        });
+    }
+
+    /**
+     * Summary bar on a swimlane header from its earliest to latest date.
+     */
+    private appendGroupSpan(rowEl: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData, dayWidth: number): void {
+        if (!row.span || !this.isInTimeWindow(row.span.start, row.span.end)) return;
+        const startX = DateService.daysBetween(this.viewStart, row.span.start) * dayWidth;
+        const width = Math.max((DateService.daysBetween(row.span.start, row.span.end) + 1) * dayWidth, LAYOUT.MIN_BAR_WIDTH);
+        const startStr = this.formatDate(row.span.start, { day: "numeric", month: "short", year: "numeric" });
+        const endStr = this.formatDate(row.span.end, { day: "numeric", month: "short", year: "numeric" });
+        const span = rowEl.append("div")
+            .classed("group-span", true)
+            .attr("role", "img")
+            .attr("aria-label", this.t("Visual_Aria_GroupSpan", row.name || "", startStr, endStr))
+            .style("left", `${startX}px`)
+            .style("width", `${width}px`);
+        if (width > LAYOUT.MIN_BAR_WIDTH_FOR_GROUP_SPAN_LABEL) {
+            span.append("span").classed("group-span-label", true).text(`${startStr} – ${endStr}`);
         }
     }
 
-    private renderTimelineRow(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData, dayWidth: number): void {
+    private renderTimelineRow(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData, dayWidth: number): HTMLDivElement {
         const rowEl = container.append("div")
             .classed("tl-row", true)
+            .attr("data-row-key", row.key)
             .classed("tl-row-parent", row.isParent || false)
             .classed("tl-row-group-header", row.type === "GroupHeader")
+            .classed("tl-row-subgroup-header", row.type === "GroupHeader" && (row.level || 0) > 0)
             .style("top", `${row.y}px`)
             .style("height", `${row.height}px`);
+        if (row.data && this.searchMatchIds.has(row.data.id)) {
+            rowEl
+                .classed("search-match", true)
+                .classed("search-current", this.searchMatches[this.searchIndex] === row.data.id);
+        }
+
+        this.renderTimelineRowContent(rowEl, row, dayWidth);
+        return rowEl.node()!;
+    }
 
-        if (row.type === "GroupHeader" || !row.data) return;
+    private renderTimelineRowContent(rowEl: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData, dayWidth: number): void {
+        if (row.type === "GroupHeader") {
+            this.appendGroupSpan(rowEl, row, dayWidth);
+            return;
+        }
+        if (!row.data) return;
 
         const item = row.data, color = this.getColor(row.type);
+        const slip = this.settings.showBaseline ? BaselineService.getSlip(item) : null;
+        if (this.settings.showBaseline) this.appendBaseline(rowEl, row, dayWidth);
 
-        if (row.type === "Milestone") {
-            if (!item.targetDate) return;
+        const criticalShadow = this.settings.showCriticalPath && this.schedule.criticalItems.has(item.id)
+            ? `0 0 0 2px ${this.settings.criticalPathColor}`
+            : null;
+
+        if (this.typeRegistry.getShape(row.type) === "diamond") {
+            if (!item.targetDate || !this.isInTimeWindow(null, item.targetDate)) return;
             const x = DateService.daysBetween(this.viewStart, item.targetDate) * dayWidth;
-            const size = this.getBarHeight("Milestone");
+            const size = this.getBarHeight(row.type);
 
             // Create a container for milestone and its label
             const milestoneContainer = rowEl.append("div")
@@ -963,33 +2530,38 @@ export class RoadmapVisual implements IVisual {
             }
 
             // Format date for accessibility
-            const targetDateStr = DateService.formatAU(item.targetDate, { day: "numeric", month: "long", year: "numeric" });
+            const targetDateStr = this.formatDate(item.targetDate, { day: "numeric", month: "long", year: "numeric" });
             // Handle standalone milestones (negative ID) vs regular work item milestones
             const isStandalone = item.workItemId < 0;
-            const displayId = isStandalone ? "" : `${item.workItemId}: `;
             const ariaLabel = isStandalone
-                ? `Milestone: ${item.title}, Target date ${targetDateStr}`
-                : `Milestone ${item.workItemId}: ${item.title}, Target date ${targetDateStr}`;
+                ? this.t("Visual_Aria_StandaloneMilestone", item.title, targetDateStr)
+                : this.t("Visual_Aria_Milestone", row.type, String(item.workItemId), item.title, targetDateStr);
 
             const el = milestoneContainer.append("div")
                 .classed("milestone", true)
                 .attr("data-id", item.id)
                 .attr("role", "img")
                 .attr("aria-label", ariaLabel)
-                .attr("tabindex", "0")
+                .attr("tabindex", "-1")
                 .style("width", `${size}px`)
                 .style("height", `${size}px`)
                 .style("background", color)
                 .style("flex-shrink", "0")
-                .attr("title", `${displayId}${item.title}`);
-            this.addBarInteractivity(el, item);
+                .classed("critical", criticalShadow !== null)
+                .style("box-shadow", criticalShadow);
+            this.addBarInteractivity(el, row);
+            if (slip !== null && slip > 0) {
+                this.appendSlipBadge(milestoneContainer, slip)
+                    .style("margin-left", this.settings.milestoneLabelPosition === "left" ? "0" : "4px")
+                    .style("margin-right", this.settings.milestoneLabelPosition === "left" ? "4px" : "0");
+            }
 
             // Add label if not 'none'
             if (this.settings.milestoneLabelPosition !== "none") {
                 // For standalone milestones, don't show the ID prefix
                 let labelText = isStandalone ? item.title : `${item.workItemId}: ${item.title}`;
                 if (this.settings.milestoneShowDate) {
-                    const dateStr = DateService.formatAU(item.targetDate, { day: "numeric", month: "short" });
+                    const dateStr = this.formatDate(item.targetDate, { day: "numeric", month: "short" });
                     labelText = `${dateStr} - ${labelText}`;
                 }
                 milestoneContainer.append("span")
@@ -999,32 +2571,121 @@ export class RoadmapVisual implements IVisual {
                     .text(labelText);
             }
         } else {
-            if (!item.startDate || !item.targetDate) return;
+            if (!item.startDate || !item.targetDate || !this.isInTimeWindow(item.startDate, item.targetDate)) return;
             const startX = DateService.daysBetween(this.viewStart, item.startDate) * dayWidth;
             const endX = DateService.daysBetween(this.viewStart, item.targetDate) * dayWidth;
             const width = Math.max(endX - startX + dayWidth, LAYOUT.MIN_BAR_WIDTH);
             const barHeight = this.getBarHeight(row.type);
 
             // Format dates for accessibility
-            const startDateStr = DateService.formatAU(item.startDate, { day: "numeric", month: "long", year: "numeric" });
-            const endDateStr = DateService.formatAU(item.targetDate, { day: "numeric", month: "long", year: "numeric" });
-            const barAriaLabel = `${row.type} ${item.workItemId}: ${item.title}, ${startDateStr} to ${endDateStr}`;
+            const startDateStr = this.formatDate(item.startDate, { day: "numeric", month: "long", year: "numeric" });
+            const endDateStr = this.formatDate(item.targetDate, { day: "numeric", month: "long", year: "numeric" });
+            const progress = this.settings.showProgress ? this.progress.get(item.id) : undefined;
+            const progressText = progress !== undefined ? this.formatPercent(progress) : "";
+            const barAriaLabel = this.t("Visual_Aria_Bar", row.type, String(item.workItemId), item.title, startDateStr, endDateStr)
+                + (progressText ? this.t("Visual_Aria_Progress", progressText) : "");
 
             const bar = rowEl.append("div")
                 .classed("bar", true)
                 .attr("data-id", item.id)
                 .attr("role", "img")
                 .attr("aria-label", barAriaLabel)
-                .attr("tabindex", "0")
+                .attr("tabindex", "-1")
                 .style("left", `${startX}px`)
                 .style("width", `${width}px`)
                 .style("height", `${barHeight}px`)
                 .style("top", `${(row.height - barHeight) / 2}px`)
                 .style("background", color)
-                .attr("title", `${item.workItemId}: ${item.title}`);
+                .classed("critical", criticalShadow !== null)
+                .style("box-shadow", criticalShadow);
+            if (progress !== undefined) {
+                bar.append("div")
+                    .classed("bar-progress", true)
+                    .style("width", `${progress * 100}%`);
+            }
             if (width > LAYOUT.MIN_BAR_WIDTH_FOR_LABEL) bar.append("span").classed("bar-label", true).text(`${item.workItemId} · ${item.title}`);
-            this.addBarInteractivity(bar, item);
+            if (progressText && width > LAYOUT.MIN_BAR_WIDTH_FOR_PROGRESS_LABEL) {
+                bar.append("span").classed("bar-progress-label", true).text(progressText);
+            }
+            this.addBarInteractivity(bar, row);
+            if (slip !== null && slip > 0) {
+                this.appendSlipBadge(rowEl, slip)
+                    .style("position", "absolute")
+                    .style("left", `${startX + width + 4}px`)
+                    .style("top", `${row.height / 2}px`)
+                    .style("transform", "translateY(-50%)");
+            }
+        }
+
+        this.appendWarningBadge(rowEl, row, dayWidth);
+    }
+
+    /**
+     * Baseline ghost under the current bar (or an outlined diamond at the
+     * baseline target for milestones).
+     */
+    private appendBaseline(rowEl: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData, dayWidth: number): void {
+        const item = row.data;
+        if (!item || !item.baselineTargetDate) return;
+        const color = this.getColor(row.type);
+        const barHeight = this.getBarHeight(row.type);
+        const targetX = DateService.daysBetween(this.viewStart, item.baselineTargetDate) * dayWidth;
+
+        if (this.typeRegistry.getShape(row.type) === "diamond" || !item.baselineStartDate) {
+            if (!this.isInTimeWindow(null, item.baselineTargetDate)) return;
+            rowEl.append("div")
+                .classed("baseline-milestone", true)
+                .attr("aria-hidden", "true")
+                .style("left", `${targetX - barHeight / 2}px`)
+                .style("top", `${(row.height - barHeight) / 2}px`)
+                .style("width", `${barHeight}px`)
+                .style("height", `${barHeight}px`)
+                .style("border-color", color);
+            return;
         }
+
+        if (!this.isInTimeWindow(item.baselineStartDate, item.baselineTargetDate)) return;
+        const startX = DateService.daysBetween(this.viewStart, item.baselineStartDate) * dayWidth;
+        const height = LAYOUT.BASELINE_BAR_HEIGHT;
+        rowEl.append("div")
+            .classed("baseline-bar", true)
+            .attr("aria-hidden", "true")
+            .style("left", `${startX}px`)
+            .style("width", `${Math.max(targetX - startX + dayWidth, LAYOUT.MIN_BAR_WIDTH)}px`)
+            .style("top", `${Math.min((row.height + barHeight) / 2 + 2, row.height - height)}px`)
+            .style("height", `${height}px`)
+            .style("background", color);
+    }
+
+    private appendSlipBadge(parent: d3.Selection<HTMLDivElement, unknown, null, undefined>, slip: number): d3.Selection<HTMLSpanElement, unknown, null, undefined> {
+        return parent.append("span")
+            .classed("slip-badge", true)
+            .attr("role", "img")
+            .attr("aria-label", this.t("Visual_Aria_Slip", this.formatDays(slip)))
+            .text(this.formatSignedDays(slip));
+    }
+
+    /**
+     * Warning badge just before an item that has schedule issues.
+     */
+    private appendWarningBadge(rowEl: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData, dayWidth: number): void {
+        const issues = row.data ? this.validation.itemIssues.get(row.data.id) : undefined;
+        const span = row.data ? this.getItemXSpan(row.data, dayWidth) : null;
+        if (!issues || !span) return;
+
+        const size = LAYOUT.WARNING_BADGE_SIZE;
+        const isDiamond = this.typeRegistry.getShape(row.type) === "diamond";
+        const offset = isDiamond ? this.getBarHeight(row.type) / 2 : 0;
+        const messages = issues.map(issue => this.getIssueMessage(issue)).join("; ");
+        rowEl.append("span")
+            .classed("warning-badge", true)
+            .attr("role", "img")
+            .attr("aria-label", this.t("Visual_Aria_Issues", messages))
+            .style("left", `${span.startX - offset - size - 2}px`)
+            .style("top", `${(row.height - size) / 2}px`)
+            .style("width", `${size}px`)
+            .style("height", `${size}px`)
+            .text("!");
     }
 
     private renderDependencyLines(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, rows: RowData[], dayWidth: number): void {
@@ -1040,16 +2701,24 @@ export class RoadmapVisual implements IVisual {
             .style("z-index", "20");
 
         const lineColor = this.settings.dependencyLineColor;
+        const conflictColor = DEFAULT_COLORS.conflict;
 
         // Build index for O(1) lookups (optimization for large datasets)
-        const rowIndex = new Map<string, RowData>();
-        const workItemIdIndex = new Map<number, RowData>();
+        const workItemIdIndex = new Map<number, RowData[]>();
         rows.forEach(row => {
             if (row.data) {
-                rowIndex.set(row.data.id, row);
-                workItemIdIndex.set(row.data.workItemId, row);
+                if (!workItemIdIndex.has(row.data.workItemId)) workItemIdIndex.set(row.data.workItemId, []);
+                workItemIdIndex.get(row.data.workItemId)!.push(row);
             }
         });
+        // An item under several tag swimlanes has a row in each; link to the
+        // row in the same swimlane where there is one
+        const findRow = (from: RowData, workItemId: number): RowData | undefined => {
+            const candidates = workItemIdIndex.get(workItemId);
+            if (!candidates) return undefined;
+            const prefix = this.getRowKeyPrefix(from);
+            return candidates.find(candidate => this.getRowKeyPrefix(candidate) === prefix) || candidates[0];
+        };
 
         // Draw parent-child dependency lines
         if (this.settings.showParentChild) {
@@ -1059,8 +2728,8 @@ export class RoadmapVisual implements IVisual {
                 const item = row.data;
                 if (!item.parentId) return;
 
-                // Find parent row using index (O(1) instead of O(n))
-                const parentRow = rowIndex.get(item.parentId);
+                // Find parent row by work item ID, whatever its type (O(1) instead of O(n))
+                const parentRow = findRow(row, Number(item.parentId));
                 if (!parentRow || !parentRow.data) return;
 
                 // Calculate line coordinates
@@ -1075,13 +2744,14 @@ export class RoadmapVisual implements IVisual {
                 const parentY = parentRow.y + parentRow.height / 2;
                 const childY = row.y + row.height / 2;
 
-                if (parentEndX > 0 && childStartX > 0) {
-                    // Draw curved connector line
+                if (parentEndX > 0 && childStartX > 0 && this.isXSpanInTimeWindow(parentEndX, childStartX)) {
+                    // Draw curved connector line (red when the child is outside the parent's dates)
+                    const connectorColor = this.validation.parentLinks.has(item.id) ? conflictColor : lineColor;
                     const midX = (parentEndX + childStartX) / 2;
                     svgContainer.append("path")
                         .attr("d", `M ${parentEndX} ${parentY} C ${midX} ${parentY}, ${midX} ${childY}, ${childStartX} ${childY}`)
                         .attr("fill", "none")
-                        .attr("stroke", lineColor)
+                        .attr("stroke", connectorColor)
                         .attr("stroke-width", String(DEPENDENCY_LINES.PARENT_CHILD_WIDTH))
                         .attr("stroke-dasharray", DEPENDENCY_LINES.PARENT_CHILD_DASH)
                         .attr("opacity", String(DEPENDENCY_LINES.PARENT_CHILD_OPACITY));
@@ -1091,65 +2761,308 @@ export class RoadmapVisual implements IVisual {
                         .attr("cx", childStartX)
                         .attr("cy", childY)
                         .attr("r", String(DEPENDENCY_LINES.CONNECTOR_RADIUS))
-                        .attr("fill", lineColor)
+                        .attr("fill", connectorColor)
                         .attr("opacity", String(DEPENDENCY_LINES.PREDECESSOR_OPACITY));
                 }
             });
         }
 
-        // Draw predecessor dependency lines
+        // Draw predecessor dependency lines, anchored and styled by link type
         if (this.settings.showPredecessors) {
+            const showCritical = this.settings.showCriticalPath;
+            const criticalColor = this.settings.criticalPathColor;
+            const arrowId = this.appendDependencyArrowMarker(svgContainer, "dependency-arrow", lineColor);
+            const criticalArrowId = showCritical
+                ? this.appendDependencyArrowMarker(svgContainer, "dependency-arrow-critical", criticalColor)
+                : arrowId;
+            const conflictArrowId = this.validation.links.size > 0
+                ? this.appendDependencyArrowMarker(svgContainer, "dependency-arrow-conflict", conflictColor)
+                : arrowId;
+
             rows.forEach(row => {
                 if (!row.data || row.type === "GroupHeader") return;
 
                 const item = row.data;
-                if (!item.predecessorId) return;
-
-                // Find predecessor using indexes (O(1) instead of O(n))
-                const predId = Number(item.predecessorId);
-                const predecessorRow = workItemIdIndex.get(predId) ||
-                    rowIndex.get(item.predecessorId) ||
-                    rowIndex.get(`E-${item.predecessorId}`) ||
-                    rowIndex.get(`F-${item.predecessorId}`) ||
-                    rowIndex.get(`M-${item.predecessorId}`);
-
-                if (!predecessorRow || !predecessorRow.data) return;
-
-                const predItem = predecessorRow.data;
-                const predEndX = predItem.targetDate
-                    ? DateService.daysBetween(this.viewStart, predItem.targetDate) * dayWidth
-                    : 0;
-                const itemStartX = item.startDate
-                    ? DateService.daysBetween(this.viewStart, item.startDate) * dayWidth
-                    : (item.targetDate ? DateService.daysBetween(this.viewStart, item.targetDate) * dayWidth : 0);
-
-                const predY = predecessorRow.y + predecessorRow.height / 2;
+                const itemSpan = this.getItemXSpan(item, dayWidth);
+                if (!itemSpan) return;
                 const itemY = row.y + row.height / 2;
 
-                if (predEndX > 0 && itemStartX > 0) {
-                    // Draw solid connector line for explicit dependencies
-                    const midX = (predEndX + itemStartX) / 2;
+                item.predecessors.forEach(link => {
+                    // Find predecessor using the index (O(1) instead of O(n))
+                    const predecessorRow = findRow(row, link.predecessorId);
+                    if (!predecessorRow || !predecessorRow.data) return;
+
+                    const predSpan = this.getItemXSpan(predecessorRow.data, dayWidth);
+                    if (!predSpan) return;
+
+                    const anchors = DependencyService.getAnchors(link.type);
+                    const x1 = anchors.from === "end" ? predSpan.endX : predSpan.startX;
+                    const x2 = anchors.to === "end" ? itemSpan.endX : itemSpan.startX;
+                    const predY = predecessorRow.y + predecessorRow.height / 2;
+                    if (!this.isXSpanInTimeWindow(x1, x2)) return;
+
+                    // Leave finish anchors to the right and start anchors to the left, and
+                    // arrive travelling right into a start or left into a finish
+                    const exitDir = anchors.from === "end" ? 1 : -1;
+                    const entryDir = anchors.to === "start" ? 1 : -1;
+                    const reach = Math.max(DEPENDENCY_LINES.CURVE_OFFSET, Math.abs(x2 - x1) / 2);
+                    const c1x = x1 + exitDir * reach;
+                    const c2x = x2 - entryDir * reach;
+                    const linkKey = DependencyService.linkKey(link.predecessorId, item.workItemId, link.type);
+                    const isConflict = this.validation.links.has(linkKey);
+                    const isCritical = showCritical && this.schedule.criticalLinks.has(linkKey);
+                    const stroke = isConflict ? conflictColor : (isCritical ? criticalColor : lineColor);
+                    const markerId = isConflict ? conflictArrowId : (isCritical ? criticalArrowId : arrowId);
+
                     svgContainer.append("path")
-                        .attr("d", `M ${predEndX} ${predY} C ${midX} ${predY}, ${midX} ${itemY}, ${itemStartX} ${itemY}`)
+                        .classed("dependency-link", true)
+                        .classed(`dependency-${link.type.toLowerCase()}`, true)
+                        .classed("critical", isCritical)
+                        .classed("conflict", isConflict)
+                        .attr("d", `M ${x1} ${predY} C ${c1x} ${predY}, ${c2x} ${itemY}, ${x2} ${itemY}`)
                         .attr("fill", "none")
-                        .attr("stroke", lineColor)
+                        .attr("stroke", stroke)
                         .attr("stroke-width", String(DEPENDENCY_LINES.PREDECESSOR_WIDTH))
-                        .attr("opacity", String(DEPENDENCY_LINES.PREDECESSOR_OPACITY));
-
-                    // Arrow at destination
-                    const arrowSize = DEPENDENCY_LINES.ARROW_SIZE;
-                    svgContainer.append("polygon")
-                        .attr("points", `${itemStartX},${itemY} ${itemStartX - arrowSize},${itemY - arrowSize / 2} ${itemStartX - arrowSize},${itemY + arrowSize / 2}`)
-                        .attr("fill", lineColor)
-                        .attr("opacity", String(DEPENDENCY_LINES.PREDECESSOR_OPACITY));
-                }
+                        .attr("stroke-dasharray", DEPENDENCY_TYPE_DASHES[link.type] || null)
+                        .attr("opacity", String(isCritical || isConflict ? 1 : DEPENDENCY_LINES.PREDECESSOR_OPACITY))
+                        .attr("marker-end", `url(#${markerId})`);
+
+                    // Lag label at the middle of the curve
+                    const lagText = link.lagDays ? this.formatSignedDays(link.lagDays) : "";
+                    if (lagText) {
+                        svgContainer.append("text")
+                            .classed("dependency-lag", true)
+                            .attr("x", (x1 + 3 * c1x + 3 * c2x + x2) / 8)
+                            .attr("y", (predY + itemY) / 2 - 4)
+                            .attr("text-anchor", "middle")
+                            .attr("fill", lineColor)
+                            .text(lagText);
+                    }
+                });
             });
         }
     }
 
-    private addBarInteractivity(element: d3.Selection<HTMLDivElement, unknown, null, undefined>, item: WorkItem): void {
-        element.on("click", (event: MouseEvent) => { event.stopPropagation(); if (item.selectionId) this.selectionManager.select(item.selectionId, event.ctrlKey || event.metaKey); })
+    /**
+     * Define an arrowhead for the successor end of predecessor links.
+     * orient="auto" turns it to follow the curve, so it points right into
+     * start anchors and left into finish anchors.
+     *
+     * @returns The marker element ID
+     */
+    private appendDependencyArrowMarker(svg: d3.Selection<SVGSVGElement, unknown, null, undefined>, arrowId: string, color: string): string {
+        const arrowSize = DEPENDENCY_LINES.ARROW_SIZE;
+        let defs = svg.select<SVGDefsElement>("defs");
+        if (defs.empty()) defs = svg.append("defs");
+        defs.append("marker")
+            .attr("id", arrowId)
+            .attr("viewBox", `0 0 ${arrowSize} ${arrowSize}`)
+            .attr("refX", String(arrowSize))
+            .attr("refY", String(arrowSize / 2))
+            .attr("markerWidth", String(arrowSize))
+            .attr("markerHeight", String(arrowSize))
+            .attr("markerUnits", "userSpaceOnUse")
+            .attr("orient", "auto")
+            .append("path")
+            .attr("d", `M 0 0 L ${arrowSize} ${arrowSize / 2} L 0 ${arrowSize} Z`)
+            .attr("fill", color);
+        return arrowId;
+    }
+
+    /**
+     * Horizontal extent of an item as drawn on the timeline: the bar's left
+     * and right edges, or the diamond's centre for both.
+     */
+    private getItemXSpan(item: WorkItem, dayWidth: number): { startX: number; endX: number } | null {
+        if (!item.targetDate) return null;
+        const targetX = DateService.daysBetween(this.viewStart, item.targetDate) * dayWidth;
+        if (!item.startDate || this.typeRegistry.getShape(item.type) === "diamond") {
+            return { startX: targetX, endX: targetX };
+        }
+        const startX = DateService.daysBetween(this.viewStart, item.startDate) * dayWidth;
+        return { startX, endX: startX + Math.max(targetX - startX + dayWidth, LAYOUT.MIN_BAR_WIDTH) };
+    }
+
+    /**
+     * Legend of the link types used by the predecessor links in the data.
+     */
+    private renderDependencyLegend(container: d3.Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const usedTypes = new Set<DependencyType>();
+        this.workItems.forEach(item => item.predecessors.forEach(link => usedTypes.add(link.type)));
+        if (usedTypes.size === 0) return;
+
+        const legend = container.append("div")
+            .classed("dependency-legend", true)
+            .attr("role", "note")
+            .attr("aria-label", this.t("Visual_Legend_LinkTypes"));
+        DEPENDENCY_TYPES.filter(type => usedTypes.has(type)).forEach(type => {
+            const entry = legend.append("div").classed("dependency-legend-item", true);
+            entry.append("svg")
+                .attr("width", "28")
+                .attr("height", "8")
+                .attr("aria-hidden", "true")
+                .append("line")
+                .attr("x1", "0")
+                .attr("y1", "4")
+                .attr("x2", "28")
+                .attr("y2", "4")
+                .attr("stroke", this.settings.dependencyLineColor)
+                .attr("stroke-width", String(DEPENDENCY_LINES.PREDECESSOR_WIDTH))
+                .attr("stroke-dasharray", DEPENDENCY_TYPE_DASHES[type] || null);
+            entry.append("span").text(`${type} ${this.t(DEPENDENCY_TYPE_LABEL_KEYS[type])}`);
+        });
+    }
+
+    private addBarInteractivity(element: d3.Selection<HTMLDivElement, unknown, null, undefined>, row: RowData): void {
+        const item = row.data!;
+        element.on("click", (event: MouseEvent) => { event.stopPropagation(); this.selectRow(row, event); })
             .on("contextmenu", (event: MouseEvent) => { event.preventDefault(); event.stopPropagation(); if (item.selectionId) this.selectionManager.showContextMenu(item.selectionId, { x: event.clientX, y: event.clientY }); });
+
+        // Power BI tooltips (identities let report page tooltips filter to the item)
+        element.on("mouseover.tooltip", (event: MouseEvent) => {
+            this.host.tooltipService.show({
+                coordinates: this.getTooltipCoordinates(event),
+                isTouchEvent: false,
+                dataItems: this.getTooltipItems(item),
+                identities: item.selectionId ? [item.selectionId] : []
+            });
+        })
+            .on("mousemove.tooltip", (event: MouseEvent) => {
+                this.host.tooltipService.move({
+                    coordinates: this.getTooltipCoordinates(event),
+                    isTouchEvent: false,
+                    identities: item.selectionId ? [item.selectionId] : []
+                });
+            })
+            .on("mouseout.tooltip", () => {
+                this.host.tooltipService.hide({ isTouchEvent: false, immediately: false });
+            });
+    }
+
+    /**
+     * Select a row's item. Ctrl/Cmd-click adds to the selection and
+     * Shift-click selects every item row from the last clicked row.
+     */
+    private selectRow(row: RowData, event: MouseEvent | KeyboardEvent): void {
+        if (!row.data?.selectionId) return;
+        const multiSelect = event.ctrlKey || event.metaKey;
+
+        const anchorIndex = this.selectionAnchorKey !== null ? this.allRows.findIndex(r => r.key === this.selectionAnchorKey) : -1;
+        const rowIndex = this.allRows.findIndex(r => r.key === row.key);
+        if (event.shiftKey && anchorIndex !== -1 && rowIndex !== -1) {
+            // An item can have a row in several tag swimlanes; select it once
+            const items = new Set(this.allRows
+                .slice(Math.min(anchorIndex, rowIndex), Math.max(anchorIndex, rowIndex) + 1)
+                .map(r => r.data));
+            const ids = [...items]
+                .map(item => item?.selectionId)
+                .filter((id): id is ISelectionId => !!id);
+            this.selectionManager.select(ids, multiSelect).then(selected => this.applySelectionState(selected as ISelectionId[]));
+            return;
+        }
+
+        this.selectionAnchorKey = row.key;
+        this.selectionManager.select(row.data.selectionId, multiSelect).then(selected => this.applySelectionState(selected as ISelectionId[]));
+    }
+
+    /**
+     * Dim the rendered rows that are outside the selection or the
+     * cross-highlight.
+     */
+    private applySelectionState(ids: ISelectionId[]): void {
+        this.selectedIds = ids;
+        this.renderedRowElements.forEach(elements => this.applyRowSelectionState(elements));
+    }
+
+    private applyRowSelectionState(elements: { row: RowData; left: HTMLDivElement; timeline: HTMLDivElement }): void {
+        const item = elements.row.data;
+        const selected = !!item?.selectionId && this.selectedIds.some(id => id.equals(item.selectionId!));
+        const dimmed = !!item && (
+            (this.selectedIds.length > 0 && !selected) || (this.hasHighlights && !item.highlighted)
+        );
+        [elements.left, elements.timeline].forEach(el => {
+            el.classList.toggle("selected", selected);
+            el.classList.toggle("dimmed", dimmed);
+        });
+    }
+
+    /**
+     * Tooltip rows for a bar or milestone: the work item fields, schedule
+     * analysis when shown, then any measures in the Tooltips field well.
+     */
+    private getTooltipItems(item: WorkItem): VisualTooltipDataItem[] {
+        const dataItems: VisualTooltipDataItem[] = [];
+        const add = (displayName: string, value: string) => {
+            if (value) dataItems.push({ displayName, value });
+        };
+        const formatDate = (date: Date) => this.formatDate(date, { day: "numeric", month: "short", year: "numeric" });
+
+        add(this.t("Visual_Tooltip_Type"), item.type);
+        if (item.workItemId > 0) add(this.t("Visual_Tooltip_State"), item.state);
+        if (item.startDate) add(this.t("Visual_Tooltip_Start"), formatDate(item.startDate));
+        if (item.targetDate) add(this.t("Visual_Tooltip_Target"), formatDate(item.targetDate));
+        const quarterDate = item.targetDate || item.startDate;
+        if (quarterDate && FiscalCalendar.isFiscal(this.fiscal)) add(this.t("Visual_Tooltip_FiscalQuarter"), this.formatQuarterLabel(quarterDate));
+        if (item.startDate && item.targetDate) {
+            add(this.t("Visual_Tooltip_Duration"), this.formatDays(DateService.daysBetween(item.startDate, item.targetDate) + 1));
+            if (this.settings.showWorkingDays) {
+                add(this.t("Visual_Tooltip_WorkingDays"), this.formatDays(WorkingCalendar.countWorkingDays(item.startDate, item.targetDate, this.daysOff, this.weekInfo.weekend)));
+            }
+        }
+        if (item.baselineStartDate) add(this.t("Visual_Tooltip_BaselineStart"), formatDate(item.baselineStartDate));
+        if (item.baselineTargetDate) add(this.t("Visual_Tooltip_BaselineTarget"), formatDate(item.baselineTargetDate));
+        const slip = BaselineService.getSlip(item);
+        if (slip !== null && slip !== 0) add(this.t("Visual_Tooltip_Slip"), this.t("Visual_Tooltip_SlipValue", this.formatSignedDays(slip)));
+        add(this.t("Visual_Tooltip_AssignedTo"), item.assignedTo);
+        add(this.t("Visual_Tooltip_Iteration"), item.iterationPath);
+        if (item.datesFromIteration) {
+            add(this.t("Visual_Tooltip_IterationDates"), this.t("Visual_Tooltip_IterationDatesValue"));
+        }
+        add(this.t("Visual_Tooltip_AreaPath"), item.areaPath);
+        if (item.priority > 0) add(this.t("Visual_Tooltip_Priority"), this.formatNumber(item.priority));
+        add(this.t("Visual_Tooltip_Tags"), item.tags);
+        const progress = this.progress.get(item.id);
+        if (this.settings.showProgress && progress !== undefined && this.typeRegistry.getShape(item.type) === "bar") {
+            add(this.t("Visual_Tooltip_Progress"), this.formatPercent(progress));
+        }
+
+        const float = this.schedule.totalFloat.get(item.id);
+        if (this.settings.showCriticalPath && float !== undefined) {
+            add(this.t("Visual_Tooltip_TotalFloat"), this.formatDays(float));
+        }
+        (this.validation.itemIssues.get(item.id) || []).forEach(issue => add(this.t("Visual_Tooltip_Issue"), this.getIssueMessage(issue)));
+
+        dataItems.push(...item.tooltipValues);
+        if (dataItems.length > 0) {
+            dataItems[0].header = item.workItemId > 0 ? `${item.workItemId}: ${item.title}` : item.title;
+        }
+        return dataItems;
+    }
+
+    /**
+     * Format a tooltip measure value in the report locale. Percentage
+     * formats show as percentages.
+     */
+    private formatTooltipValue(value: powerbi.PrimitiveValue, format: string | undefined): string {
+        if (value instanceof Date) {
+            return this.formatDate(value, { day: "numeric", month: "short", year: "numeric" });
+        }
+        if (typeof value === "number") {
+            if (format && format.includes("%")) {
+                return value.toLocaleString(this.locale, { style: "percent", maximumFractionDigits: 1 });
+            }
+            return value.toLocaleString(this.locale, { maximumFractionDigits: 2 });
+        }
+        return this.sanitizeString(String(value));
+    }
+
+    private formatPercent(fraction: number): string {
+        return fraction.toLocaleString(this.locale, { style: "percent", maximumFractionDigits: 0 });
+    }
+
+    private getTooltipCoordinates(event: MouseEvent): number[] {
+        const rect = this.rootElement.getBoundingClientRect();
+        return [event.clientX - rect.left, event.clientY - rect.top];
     }
 
     private renderTimeHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
@@ -1172,216 +3085,1030 @@ export class RoadmapVisual implements IVisual {
         default:
             this.renderMonthlyHeaders(container, viewEnd, dayWidth);
         }
+        if (this.hasSprintHeader()) this.renderSprintHeaders(container, viewEnd, dayWidth);
+        if (this.hasMarkerHeader()) this.renderMarkerHeaders(container, viewEnd, dayWidth);
     }
 
-    private renderDailyHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
-        let current = new Date(this.viewStart);
-        while (current <= viewEnd) {
-            if (DateService.isFirstOfMonth(current) || current.getTime() === this.viewStart.getTime()) {
-                const x = DateService.daysBetween(this.viewStart, current) * dayWidth;
-                const monthEnd = DateService.getMonthEnd(current.getFullYear(), current.getMonth());
-                const width = DateService.daysBetween(current, monthEnd > viewEnd ? viewEnd : monthEnd) * dayWidth + dayWidth;
-                container.append("div").classed("month-cell", true).classed("month-primary", true).style("left", `${x}px`).style("width", `${width}px`).text(DateService.formatAU(current, { month: "short", year: "numeric" }));
+    /**
+     * Row of sprints below the calendar headers, the current sprint highlighted.
+     */
+    private renderSprintHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
+        const current = this.getCurrentSprint();
+        this.forEachSpanInWindow(this.iterations, viewEnd, (iteration, start, end) => {
+            const startStr = this.formatDate(iteration.start, { day: "numeric", month: "short" });
+            const endStr = this.formatDate(iteration.end, { day: "numeric", month: "short", year: "numeric" });
+            const isCurrent = iteration === current;
+            this.appendHeaderCell(container, "sprint-cell", start, end, dayWidth)
+                .classed("sprint-alt", iteration.index % 2 === 1)
+                .classed("sprint-current", isCurrent)
+                .attr("aria-label", this.t(isCurrent ? "Visual_Aria_CurrentSprint" : "Visual_Aria_Sprint", iteration.name, startStr, endStr))
+                .text(iteration.name);
+        });
+    }
+
+    /**
+     * Call fn for each span (sprint, holiday, marker) that overlaps the
+     * timeline and the rendered time window, with its dates clipped to the
+     * timeline bounds.
+     */
+    private forEachSpanInWindow<T extends { start: Date; end: Date }>(spans: T[], viewEnd: Date, fn: (span: T, start: Date, end: Date) => void): void {
+        spans.forEach(span => {
+            if (span.end < this.viewStart || span.start > viewEnd) return;
+            if (!this.isInTimeWindow(span.start, span.end)) return;
+            fn(span, span.start < this.viewStart ? this.viewStart : span.start, span.end > viewEnd ? viewEnd : span.end);
+        });
+    }
+
+    private hasSprintHeader(): boolean {
+        return this.settings.showSprintHeader && this.iterations.length > 0;
+    }
+
+    /**
+     * Row of marker labels below the calendar (and sprint) headers, so they
+     * stay in view while the rows scroll. Range labels stick to the left
+     * edge while the range is scrolled partly out of view.
+     */
+    private renderMarkerHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
+        const formatDate = (date: Date) => this.formatDate(date, { day: "numeric", month: "short", year: "numeric" });
+        this.forEachSpanInWindow(this.markers, viewEnd, (marker, start, end) => {
+            if (MarkerService.isRange(marker)) {
+                this.appendHeaderCell(container, "marker-cell", start, end, dayWidth)
+                    .classed("marker-range-cell", true)
+                    .style("--marker-color", this.getMarkerColor(marker))
+                    .attr("aria-label", this.t("Visual_Aria_MarkerRange", marker.label, formatDate(marker.start), formatDate(marker.end)))
+                    .append("span")
+                    .classed("marker-cell-label", true)
+                    .text(marker.label);
+            } else if (marker.label) {
+                container.append("div")
+                    .classed("marker-cell", true)
+                    .classed("marker-flag", true)
+                    .style("left", `${DateService.daysBetween(this.viewStart, start) * dayWidth}px`)
+                    .style("--marker-color", this.getMarkerColor(marker))
+                    .attr("aria-label", this.t("Visual_Aria_Marker", marker.label, formatDate(marker.start)))
+                    .text(marker.label);
             }
-            current = DateService.addDays(current, 1);
-        }
+        });
+    }
+
+    private hasMarkerHeader(): boolean {
+        return this.settings.showMarkers && this.markers.some(marker => marker.label || MarkerService.isRange(marker));
+    }
+
+    private getMarkerColor(marker: Marker): string {
+        return marker.color || (MarkerService.isRange(marker) ? this.settings.markerRangeColor : this.settings.markerColor);
+    }
+
+    private getCurrentSprint(): Iteration | undefined {
+        return this.settings.highlightCurrentSprint ? IterationCalendar.findCurrent(this.iterations) : undefined;
+    }
+
+    private renderDailyHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
+        this.forEachPeriodInWindow(viewEnd, this.periods.month, (start, end) => {
+            this.appendHeaderCell(container, "month-cell", start, end, dayWidth)
+                .classed("month-primary", true)
+                .text(this.formatMonthLabel(start));
+        });
         if (dayWidth >= 20) {
-            current = new Date(this.viewStart);
-            let i = 0;
-            while (current <= viewEnd) {
-                const x = i * dayWidth;
-                container.append("div").classed("day-cell", true).style("left", `${x}px`).style("width", `${dayWidth}px`).style("top", "28px").text(current.getDate().toString());
-                current = DateService.addDays(current, 1);
-                i++;
-            }
+            this.forEachPeriodInWindow(viewEnd, this.periods.day, (start, end) => {
+                this.appendHeaderCell(container, "day-cell", start, end, dayWidth)
+                    .style("top", "28px")
+                    .text(this.formatDate(start, { day: "numeric" }));
+            });
         }
     }
 
     private renderWeeklyHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
-        let current = new Date(this.viewStart);
-        while (current <= viewEnd) {
-            if (DateService.isFirstOfMonth(current) || current.getTime() === this.viewStart.getTime()) {
-                const x = DateService.daysBetween(this.viewStart, current) * dayWidth;
-                const monthEnd = DateService.getMonthEnd(current.getFullYear(), current.getMonth());
-                const width = DateService.daysBetween(current, monthEnd > viewEnd ? viewEnd : monthEnd) * dayWidth + dayWidth;
-                container.append("div").classed("month-cell", true).classed("month-primary", true).style("left", `${x}px`).style("width", `${width}px`).text(DateService.formatAU(current, { month: "short", year: "numeric" }));
-            }
-            current = DateService.addDays(current, 1);
-        }
-        current = DateService.nextMonday(new Date(this.viewStart));
-        while (current <= viewEnd) {
-            const x = DateService.daysBetween(this.viewStart, current) * dayWidth;
-            const weekEnd = DateService.addDays(current, 6);
-            const effectiveEnd = weekEnd > viewEnd ? viewEnd : weekEnd;
-            const width = DateService.daysBetween(current, effectiveEnd) * dayWidth + dayWidth;
-            container.append("div").classed("week-cell", true).style("left", `${x}px`).style("width", `${width}px`).style("top", "28px").text(`W${DateService.getWeekNumber(current)}`);
-            current = DateService.addDays(current, 7);
-        }
+        this.forEachPeriodInWindow(viewEnd, this.periods.month, (start, end) => {
+            this.appendHeaderCell(container, "month-cell", start, end, dayWidth)
+                .classed("month-primary", true)
+                .text(this.formatMonthLabel(start));
+        });
+        // Retail calendars number weeks through the fiscal year
+        const isRetail = this.fiscal.pattern !== "months";
+        this.forEachPeriodInWindow(viewEnd, this.periods.week, (start, end) => {
+            const week = isRetail
+                ? FiscalCalendar.getWeekNumber(start, this.fiscal)
+                : DateService.getWeekNumber(start, this.weekInfo.firstDay, this.weekInfo.minimalDays);
+            this.appendHeaderCell(container, "week-cell", start, end, dayWidth)
+                .style("top", "28px")
+                .text(this.t("Visual_WeekLabel", this.formatNumber(week)));
+        });
     }
 
     private renderMonthlyHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
-        let current = new Date(this.viewStart);
-        while (current <= viewEnd) {
-            if (DateService.isFirstOfMonth(current) || current.getTime() === this.viewStart.getTime()) {
-                const x = DateService.daysBetween(this.viewStart, current) * dayWidth;
-                const monthEnd = DateService.getMonthEnd(current.getFullYear(), current.getMonth());
-                const width = DateService.daysBetween(current, monthEnd > viewEnd ? viewEnd : monthEnd) * dayWidth + dayWidth;
-                container.append("div").classed("month-cell", true).style("left", `${x}px`).style("width", `${width}px`).text(DateService.formatAU(current, { month: "short", year: "numeric" }));
-            }
-            current = DateService.addDays(current, 1);
+        if (!FiscalCalendar.isFiscal(this.fiscal)) {
+            this.forEachPeriodInWindow(viewEnd, this.periods.month, (start, end) => {
+                this.appendHeaderCell(container, "month-cell", start, end, dayWidth)
+                    .text(this.formatMonthLabel(start));
+            });
+            return;
         }
+        // Fiscal quarters ("FY26 Q1") above the months
+        this.forEachPeriodInWindow(viewEnd, this.periods.quarter, (start, end) => {
+            this.appendHeaderCell(container, "quarter-cell", start, end, dayWidth)
+                .classed("quarter-primary", true)
+                .text(this.formatQuarterLabel(start));
+        });
+        this.forEachPeriodInWindow(viewEnd, this.periods.month, (start, end) => {
+            this.appendHeaderCell(container, "month-cell", start, end, dayWidth)
+                .classed("month-secondary", true)
+                .text(this.formatMonthLabel(start));
+        });
     }
 
     private renderAnnualHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
-        let current = new Date(this.viewStart);
-        let currentYear = current.getFullYear();
-        let yearStartX = 0;
-        while (current <= viewEnd) {
-            if (current.getFullYear() !== currentYear) {
-                const width = DateService.daysBetween(this.viewStart, current) * dayWidth - yearStartX;
-                container.append("div").classed("year-cell", true).style("left", `${yearStartX}px`).style("width", `${width}px`).text(String(currentYear));
-                yearStartX = DateService.daysBetween(this.viewStart, current) * dayWidth;
-                currentYear = current.getFullYear();
-            }
-            current = DateService.addDays(current, 1);
-        }
-        const totalWidth = DateService.daysBetween(this.viewStart, viewEnd) * dayWidth + dayWidth;
-        container.append("div").classed("year-cell", true).style("left", `${yearStartX}px`).style("width", `${totalWidth - yearStartX}px`).text(String(currentYear));
-        current = new Date(this.viewStart);
-        while (current <= viewEnd) {
-            const quarter = DateService.getQuarter(current);
-            if (DateService.isFirstOfQuarter(current) || current.getTime() === this.viewStart.getTime()) {
-                const x = DateService.daysBetween(this.viewStart, current) * dayWidth;
-                const quarterEnd = DateService.getQuarterEnd(current.getFullYear(), quarter);
-                const effectiveEnd = quarterEnd > viewEnd ? viewEnd : quarterEnd;
-                const width = DateService.daysBetween(current, effectiveEnd) * dayWidth + dayWidth;
-                container.append("div").classed("quarter-cell", true).style("left", `${x}px`).style("width", `${width}px`).style("top", "28px").text(`Q${quarter}`);
-            }
-            current = DateService.addDays(current, 1);
-        }
+        this.forEachPeriodInWindow(viewEnd, this.periods.year, (start, end) => {
+            this.appendHeaderCell(container, "year-cell", start, end, dayWidth)
+                .text(this.formatYearLabel(start));
+        });
+        this.forEachPeriodInWindow(viewEnd, this.periods.quarter, (start, end) => {
+            this.appendHeaderCell(container, "quarter-cell", start, end, dayWidth)
+                .style("top", "28px")
+                .attr("aria-label", this.formatQuarterLabel(start))
+                .text(this.t("Visual_QuarterLabel", this.formatNumber(FiscalCalendar.getQuarter(start, this.fiscal))));
+        });
     }
 
     private renderMultiYearHeaders(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
         // Render year headers only (very compact for multi-year view)
-        let current = new Date(this.viewStart);
-        let currentYear = current.getFullYear();
-        let yearStartX = 0;
-        while (current <= viewEnd) {
-            if (current.getFullYear() !== currentYear) {
-                const width = DateService.daysBetween(this.viewStart, current) * dayWidth - yearStartX;
-                container.append("div").classed("year-cell", true).classed("year-cell-multi", true).style("left", `${yearStartX}px`).style("width", `${width}px`).style("height", "36px").text(String(currentYear));
-                yearStartX = DateService.daysBetween(this.viewStart, current) * dayWidth;
-                currentYear = current.getFullYear();
-            }
-            current = DateService.addDays(current, 1);
+        this.forEachPeriodInWindow(viewEnd, this.periods.year, (start, end) => {
+            this.appendHeaderCell(container, "year-cell", start, end, dayWidth)
+                .classed("year-cell-multi", true)
+                .style("height", "36px")
+                .text(this.formatYearLabel(start));
+        });
+    }
+
+    /**
+     * Month header label. Retail periods are named after the month they
+     * stand for rather than the month they start in.
+     */
+    private formatMonthLabel(start: Date): string {
+        const month = this.fiscal.pattern === "months" ? start : FiscalCalendar.getNominalMonth(start, this.fiscal);
+        return this.formatDate(month, { month: "short", year: "numeric" });
+    }
+
+    /**
+     * Year label: the calendar year, or "FY26" on a fiscal calendar.
+     */
+    private formatYearLabel(date: Date): string {
+        if (!FiscalCalendar.isFiscal(this.fiscal)) return this.formatDate(date, { year: "numeric" });
+        return this.t("Visual_FiscalYearLabel", this.formatFiscalYearNumber(date));
+    }
+
+    /**
+     * Quarter label with its year: "Q1 2026", or "FY26 Q1" on a fiscal calendar.
+     */
+    private formatQuarterLabel(date: Date): string {
+        const quarter = this.formatNumber(FiscalCalendar.getQuarter(date, this.fiscal));
+        if (!FiscalCalendar.isFiscal(this.fiscal)) {
+            return this.t("Visual_CalendarQuarterLabel", quarter, this.formatDate(date, { year: "numeric" }));
         }
-        // Render last year
-        const totalWidth = DateService.daysBetween(this.viewStart, viewEnd) * dayWidth + dayWidth;
-        container.append("div").classed("year-cell", true).classed("year-cell-multi", true).style("left", `${yearStartX}px`).style("width", `${totalWidth - yearStartX}px`).style("height", "36px").text(String(currentYear));
+        return this.t("Visual_FiscalQuarterLabel", this.formatFiscalYearNumber(date), quarter);
+    }
+
+    /** Two-digit fiscal year number, e.g. "26" */
+    private formatFiscalYearNumber(date: Date): string {
+        return (FiscalCalendar.getFiscalYear(date, this.fiscal) % 100).toLocaleString(this.locale, { minimumIntegerDigits: 2 });
     }
 
-    private renderGrid(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, totalDays: number, dayWidth: number, _viewEnd: Date): void {
+    /**
+     * Call fn for each period (day, week, month…) that overlaps the rendered
+     * time window, with the period clipped to the timeline bounds.
+     */
+    private forEachPeriodInWindow(viewEnd: Date, period: PeriodStepper, fn: (start: Date, end: Date) => void): void {
+        const window = this.renderedWindow;
+        const windowStart = window && window.start > this.viewStart ? window.start : this.viewStart;
+        const windowEnd = window && window.end < viewEnd ? window.end : viewEnd;
+
+        let start = period.start(windowStart);
+        while (start <= windowEnd) {
+            const next = period.next(start);
+            const end = DateService.addDays(next, -1);
+            fn(start < this.viewStart ? this.viewStart : start, end > viewEnd ? viewEnd : end);
+            start = next;
+        }
+    }
+
+    private appendHeaderCell(
+        container: d3.Selection<HTMLDivElement, unknown, null, undefined>,
+        className: string,
+        start: Date,
+        end: Date,
+        dayWidth: number
+    ): d3.Selection<HTMLDivElement, unknown, null, undefined> {
+        const x = DateService.daysBetween(this.viewStart, start) * dayWidth;
+        const width = DateService.daysBetween(start, end) * dayWidth + dayWidth;
+        return container.append("div")
+            .classed(className, true)
+            .style("left", `${x}px`)
+            .style("width", `${width}px`);
+    }
+
+    private renderGrid(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, totalDays: number, dayWidth: number, viewEnd: Date): void {
+        // Alternate sprints and the current sprint are shaded under the grid lines
+        const currentSprint = this.getCurrentSprint();
+        this.forEachSpanInWindow(this.iterations, viewEnd, (iteration, start, end) => {
+            const isCurrent = iteration === currentSprint;
+            const isAlt = this.settings.showSprintBands && iteration.index % 2 === 1;
+            if (!isCurrent && !isAlt) return;
+            container.append("div")
+                .classed("sprint-band", true)
+                .classed("sprint-band-current", isCurrent)
+                .style("left", `${DateService.daysBetween(this.viewStart, start) * dayWidth}px`)
+                .style("width", `${(DateService.daysBetween(start, end) + 1) * dayWidth}px`);
+        });
+
+        // Only materialise grid lines for days inside the rendered time window
+        const window = this.renderedWindow;
+        const firstDay = window ? Math.max(0, DateService.daysBetween(this.viewStart, window.start)) : 0;
+        const lastDay = window ? Math.min(totalDays, DateService.daysBetween(this.viewStart, window.end) + 1) : totalDays;
+
+        // Weekends at the scales where a day is wide enough to see
+        const scale = this.settings.timeScale;
+        if (this.settings.shadeWeekends && (scale === "daily" || scale === "weekly")) {
+            for (let i = firstDay; i < lastDay; i++) {
+                if (!DateService.isWeekend(DateService.addDays(this.viewStart, i), this.weekInfo.weekend)) continue;
+                // Saturday and Sunday share one band
+                let days = 1;
+                while (i + days < lastDay && DateService.isWeekend(DateService.addDays(this.viewStart, i + days), this.weekInfo.weekend)) days++;
+                container.append("div")
+                    .classed("weekend-band", true)
+                    .style("left", `${i * dayWidth}px`)
+                    .style("width", `${days * dayWidth}px`);
+                i += days - 1;
+            }
+        }
+
+        // Holidays and shutdowns are hatched, named when there is room
+        if (this.settings.showHolidays) {
+            this.forEachSpanInWindow(this.holidays, viewEnd, (holiday, start, end) => {
+                const width = (DateService.daysBetween(start, end) + 1) * dayWidth;
+                const band = container.append("div")
+                    .classed("holiday-band", true)
+                    .style("left", `${DateService.daysBetween(this.viewStart, start) * dayWidth}px`)
+                    .style("width", `${width}px`);
+                if (holiday.label && width >= LAYOUT.MIN_BAR_WIDTH_FOR_LABEL) {
+                    band.append("span").classed("holiday-label", true).text(holiday.label);
+                }
+            });
+        }
+
+        // Labelled ranges (their labels are in the header)
+        if (this.settings.showMarkers) {
+            this.forEachSpanInWindow(this.markers.filter(marker => MarkerService.isRange(marker)), viewEnd, (marker, start, end) => {
+                container.append("div")
+                    .classed("marker-range", true)
+                    .classed(`marker-line-${marker.lineStyle || this.settings.markerLineStyle}`, true)
+                    .style("--marker-color", this.getMarkerColor(marker))
+                    .style("left", `${DateService.daysBetween(this.viewStart, start) * dayWidth}px`)
+                    .style("width", `${(DateService.daysBetween(start, end) + 1) * dayWidth}px`);
+            });
+        }
+        // Month, quarter and year lines follow the fiscal calendar's periods
+        const starts = (period: PeriodStepper) => this.getPeriodStarts(viewEnd, period);
+
         switch (this.settings.timeScale) {
-        case "daily":
-            for (let i = 0; i < totalDays; i++) {
+        case "daily": {
+            const monthStarts = starts(this.periods.month);
+            for (let i = firstDay; i < lastDay; i++) {
                 const date = DateService.addDays(this.viewStart, i);
-                const isMonth = DateService.isFirstOfMonth(date);
-                const isWeekend = DateService.isWeekend(date);
+                const isMonth = monthStarts.has(date.getTime());
+                const isWeekend = DateService.isWeekend(date, this.weekInfo.weekend);
                 container.append("div").classed("grid-line", true).classed("grid-line-month", isMonth).classed("grid-line-weekend", isWeekend).style("left", `${i * dayWidth}px`);
             }
             break;
-        case "weekly":
-            for (let i = 0; i < totalDays; i++) {
+        }
+        case "weekly": {
+            const monthStarts = starts(this.periods.month);
+            for (let i = firstDay; i < lastDay; i++) {
                 const date = DateService.addDays(this.viewStart, i);
-                const isMonth = DateService.isFirstOfMonth(date);
-                const isMonday = DateService.isMonday(date);
-                if (isMonth || isMonday) {
-                    container.append("div").classed("grid-line", true).classed("grid-line-month", isMonth).classed("grid-line-week", isMonday && !isMonth).style("left", `${i * dayWidth}px`);
+                const isMonth = monthStarts.has(date.getTime());
+                const isWeekStart = date.getDay() === this.weekInfo.firstDay;
+                if (isMonth || isWeekStart) {
+                    container.append("div").classed("grid-line", true).classed("grid-line-month", isMonth).classed("grid-line-week", isWeekStart && !isMonth).style("left", `${i * dayWidth}px`);
                 }
             }
             break;
-        case "monthly":
-            for (let i = 0; i < totalDays; i++) {
+        }
+        case "monthly": {
+            const monthStarts = starts(this.periods.month);
+            for (let i = firstDay; i < lastDay; i++) {
                 const date = DateService.addDays(this.viewStart, i);
-                if (DateService.isFirstOfMonth(date)) {
+                if (monthStarts.has(date.getTime())) {
                     container.append("div").classed("grid-line", true).classed("grid-line-month", true).style("left", `${i * dayWidth}px`);
                 }
             }
             break;
-        case "annual":
-            for (let i = 0; i < totalDays; i++) {
+        }
+        case "annual": {
+            const yearStarts = starts(this.periods.year);
+            const quarterStarts = starts(this.periods.quarter);
+            for (let i = firstDay; i < lastDay; i++) {
                 const date = DateService.addDays(this.viewStart, i);
-                const isYear = DateService.isFirstOfYear(date);
-                const isQuarter = DateService.isFirstOfQuarter(date);
+                const isYear = yearStarts.has(date.getTime());
+                const isQuarter = quarterStarts.has(date.getTime());
                 if (isYear || isQuarter) {
                     container.append("div").classed("grid-line", true).classed("grid-line-year", isYear).classed("grid-line-quarter", isQuarter && !isYear).style("left", `${i * dayWidth}px`);
                 }
             }
             break;
-        case "multiYear":
+        }
+        case "multiYear": {
             // Grid lines only at year boundaries for multi-year view
-            for (let i = 0; i < totalDays; i++) {
+            const yearStarts = starts(this.periods.year);
+            for (let i = firstDay; i < lastDay; i++) {
                 const date = DateService.addDays(this.viewStart, i);
-                const isYear = DateService.isFirstOfYear(date);
-                if (isYear) {
+                if (yearStarts.has(date.getTime())) {
                     container.append("div").classed("grid-line", true).classed("grid-line-year", true).style("left", `${i * dayWidth}px`);
                 }
             }
             break;
         }
+        }
+    }
+
+    /**
+     * Start times of the periods overlapping the rendered time window.
+     */
+    private getPeriodStarts(viewEnd: Date, period: PeriodStepper): Set<number> {
+        const starts = new Set<number>();
+        const window = this.renderedWindow;
+        const windowStart = window && window.start > this.viewStart ? window.start : this.viewStart;
+        const windowEnd = window && window.end < viewEnd ? window.end : viewEnd;
+        for (let start = period.start(windowStart); start <= windowEnd; start = period.next(start)) {
+            starts.add(start.getTime());
+        }
+        return starts;
     }
 
     private renderTodayLine(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
         const today = DateService.today();
         if (today >= this.viewStart && today <= viewEnd) {
             const line = container.append("div").classed("today-line", true).style("left", `${DateService.daysBetween(this.viewStart, today) * dayWidth}px`);
-            line.append("span").classed("today-label", true).text("TODAY");
+            line.append("span").classed("today-label", true).text(this.t("Visual_Today"));
+        }
+    }
+
+    /**
+     * Vertical lines for single-day markers, drawn at the start of their day
+     * like the today line.
+     */
+    private renderMarkerLines(container: d3.Selection<HTMLDivElement, unknown, null, undefined>, viewEnd: Date, dayWidth: number): void {
+        this.markers.forEach(marker => {
+            if (MarkerService.isRange(marker) || marker.start < this.viewStart || marker.start > viewEnd) return;
+            container.append("div")
+                .classed("marker-line", true)
+                .classed(`marker-line-${marker.lineStyle || this.settings.markerLineStyle}`, true)
+                .style("--marker-color", this.getMarkerColor(marker))
+                .style("left", `${DateService.daysBetween(this.viewStart, marker.start) * dayWidth}px`);
+        });
+    }
+
+    /**
+     * Localised string from stringResources, with {0}, {1}… replaced by args.
+     */
+    private t(key: string, ...args: string[]): string {
+        const text = this.localizationManager.getDisplayName(key) || key;
+        return text.replace(/\{(\d+)\}/g, (match, index) => args[Number(index)] ?? match);
+    }
+
+    /**
+     * Localised count: uses the key's "_One" or "_Other" form for the
+     * locale's plural rules, with the formatted count as {0}.
+     */
+    private tCount(key: string, count: number, ...args: string[]): string {
+        const form = new Intl.PluralRules(this.locale).select(count) === "one" ? "One" : "Other";
+        return this.t(`${key}_${form}`, this.formatNumber(count), ...args);
+    }
+
+    private formatDate(date: Date, options: Intl.DateTimeFormatOptions): string {
+        return DateService.format(date, options, this.locale);
+    }
+
+    private formatNumber(value: number): string {
+        return value.toLocaleString(this.locale);
+    }
+
+    /** A number of days, e.g. "3 days" */
+    private formatDays(days: number): string {
+        return this.tCount("Visual_Days", days);
+    }
+
+    /** A signed day offset, e.g. "+3d" or "−2d" */
+    private formatSignedDays(days: number): string {
+        const sign = days > 0 ? "+" : days < 0 ? "−" : "±";
+        return this.t("Visual_SignedDays", sign + this.formatNumber(Math.abs(days)));
+    }
+
+    private getIssueMessage(issue: ValidationIssue): string {
+        const ids = issue.relatedIds.map(id => `#${id}`);
+        switch (issue.kind) {
+        case "linkViolation":
+            return this.t("Visual_Issue_LinkViolation",
+                this.t(DEPENDENCY_TYPE_LABEL_KEYS[issue.linkType || "FS"]).toLocaleLowerCase(this.locale), ids[0], this.formatDays(issue.days || 0));
+        case "outsideParent":
+            return this.t("Visual_Issue_OutsideParent", ids[0]);
+        default:
+            return this.t("Visual_Issue_Cycle", ids.join(", "));
         }
     }
 
+    private getChevron(collapsed: boolean | undefined): string {
+        if (!collapsed) return "▼";
+        return this.isRtl ? "◀" : "▶";
+    }
+
+    /**
+     * PSPF classification banner in the marking's colours. Print styles fix
+     * the banners to the top and bottom of every printed page.
+     */
+    private renderClassificationBanner(position: "top" | "bottom"): void {
+        const marking = this.settings.classification;
+        if (!marking) return;
+        const text = ClassificationService.getText(marking);
+        const colors = ClassificationService.getColors(marking.level);
+        this.container.append("div")
+            .classed("classification-banner", true)
+            .classed(`classification-${position}`, true)
+            .style("--classification-bg", colors.background)
+            .style("--classification-color", colors.color)
+            .attr("role", "note")
+            .attr("aria-label", this.t("Visual_Aria_Classification", text))
+            // Announce the marking once
+            .attr("aria-hidden", position === "bottom" ? "true" : null)
+            .text(text);
+    }
+
     private renderEmptyState(message: string): void {
         const empty = this.container.append("div").classed("empty-state", true);
         empty.append("div").classed("empty-icon", true).text("📊");
-        empty.append("div").classed("empty-title", true).text("No Data");
+        empty.append("div").classed("empty-title", true).text(this.t("Visual_Empty_Title"));
         empty.append("div").classed("empty-text", true).text(message);
         const help = empty.append("div").classed("empty-help", true);
-        help.append("span").text("Required: ");
-        help.append("strong").text("Work Item ID, Title, Type");
-        help.append("span").text(" or ");
-        help.append("strong").text("Milestone Title/Target Date");
+        help.append("span").text(this.t("Visual_Empty_Required"));
+        help.append("strong").text(this.t("Visual_Empty_WorkItemFields"));
+        help.append("span").text(this.t("Visual_Empty_Or"));
+        help.append("strong").text(this.t("Visual_Empty_MilestoneFields"));
     }
 
     private toggleCollapse(key: string): void {
         if (this.collapsed.has(key)) this.collapsed.delete(key);
         else this.collapsed.add(key);
-        this.host.refreshHostData();
+        this.persistCollapsed();
+    }
+
+    private setCollapsed(keys: string[]): void {
+        this.collapsed = new Set(keys);
+        this.persistCollapsed();
+    }
+
+    /**
+     * Save the collapsed row keys with the report. The host responds with a
+     * fresh update() that renders the new state.
+     */
+    private persistCollapsed(): void {
+        this.collapsedSource = JSON.stringify([...this.collapsed]);
+        this.persistSetting("viewState", { collapsedIds: this.collapsedSource });
+    }
+
+    /**
+     * Restore the collapsed rows from the saved view state, or from the
+     * Expand by Default setting when nothing has been saved. Only runs when
+     * the saved state or default changes, so in-memory changes survive
+     * data refreshes.
+     */
+    private restoreCollapsed(dataView: DataView): void {
+        const saved = dataView.metadata?.objects?.viewState?.collapsedIds;
+        const state = typeof saved === "string" ? saved : "";
+        const source = state || `default:${this.settings.defaultExpanded}`;
+        if (source === this.collapsedSource) return;
+        this.collapsedSource = source;
+
+        if (state) {
+            this.collapsed = new Set(this.parseCollapsedIds(state));
+        } else {
+            this.collapsed = this.settings.defaultExpanded
+                ? new Set()
+                : new Set(this.getParentRows().map(row => row.key));
+        }
+    }
+
+    private parseCollapsedIds(state: string): string[] {
+        try {
+            const ids: unknown = JSON.parse(state);
+            return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * All collapsible rows, as if every row were expanded.
+     */
+    private getParentRows(): RowData[] {
+        return this.buildRows(new Set()).filter(row => row.isParent);
+    }
+
+    private appendSearchBox(container: d3.Selection<HTMLDivElement, unknown, null, undefined>): void {
+        const search = container.append("div")
+            .classed("toolbar-search", true)
+            .attr("role", "search");
+        search.append("input")
+            .classed("search-input", true)
+            .attr("type", "search")
+            .attr("placeholder", this.t("Visual_Search_Placeholder"))
+            .attr("aria-label", this.t("Visual_Search_Label"))
+            .property("value", this.searchQuery)
+            .on("input", (event: Event) => this.setSearchQuery((event.target as HTMLInputElement).value))
+            .on("keydown", (event: KeyboardEvent) => {
+                if (event.key === "Enter") {
+                    event.preventDefault();
+                    this.stepSearch(event.shiftKey ? -1 : 1);
+                } else if (event.key === "Escape" && this.searchQuery) {
+                    event.preventDefault();
+                    this.setSearchQuery("");
+                }
+            });
+        if (!this.searchTerm) return;
+
+        const count = this.searchMatches.length;
+        search.append("span")
+            .classed("search-count", true)
+            .attr("aria-live", "polite")
+            .text(count > 0
+                ? this.t("Visual_Search_Position", this.formatNumber(this.searchIndex + 1), this.formatNumber(count))
+                : this.t("Visual_Search_NoMatches"));
+        search.append("button")
+            .classed("search-step", true)
+            .attr("aria-label", this.t("Visual_Search_Previous"))
+            .property("disabled", count === 0)
+            .text("▲")
+            .on("click", () => this.stepSearch(-1));
+        search.append("button")
+            .classed("search-step", true)
+            .attr("aria-label", this.t("Visual_Search_Next"))
+            .property("disabled", count === 0)
+            .text("▼")
+            .on("click", () => this.stepSearch(1));
+        search.append("button")
+            .classed("search-filter", true)
+            .classed("active", this.showMatchesOnly)
+            .attr("aria-pressed", this.showMatchesOnly ? "true" : "false")
+            .text(this.t("Visual_Search_MatchesOnly"))
+            .on("click", () => {
+                this.showMatchesOnly = !this.showMatchesOnly;
+                this.updateSearchMatches();
+                this.revealSearchMatch();
+            });
+    }
+
+    /**
+     * Bar of tag chips below the toolbar. Clicking a chip cycles it through
+     * included, excluded and off; the filter is saved with the report.
+     */
+    private renderTagFilterBar(): void {
+        const tags = TagService.collect(this.workItems.map(item => item.tagList));
+        if (tags.length === 0) return;
+        const filter = this.getTagFilter();
+
+        const bar = this.container.append("div")
+            .classed("tag-filter-bar", true)
+            .attr("role", "group")
+            .attr("aria-label", this.t("Visual_TagFilter_Label"));
+        bar.append("span").classed("tag-filter-title", true).text(this.t("Visual_TagFilter_Title"));
+        tags.forEach(tag => {
+            const key = TagService.key(tag);
+            const state = filter.include.includes(key) ? "include" : (filter.exclude.includes(key) ? "exclude" : "off");
+            const stateKey = state === "include" ? "Visual_TagFilter_Included" : (state === "exclude" ? "Visual_TagFilter_Excluded" : "Visual_TagFilter_Off");
+            const chip = bar.append("button")
+                .classed("tag-chip", true)
+                .classed("tag-chip-include", state === "include")
+                .classed("tag-chip-exclude", state === "exclude")
+                .attr("aria-label", this.t(stateKey, tag))
+                .style("--tag-color", TagService.getColor(tag))
+                .on("click", () => {
+                    const next = state === "off" ? "include" : (state === "include" ? "exclude" : "off");
+                    this.setTagFilterState(tag, next);
+                });
+            if (state !== "off") chip.append("span").attr("aria-hidden", "true").text(state === "include" ? "+" : "−");
+            chip.append("span").text(tag);
+        });
+        if (TagService.isActive(filter)) {
+            bar.append("button")
+                .classed("tag-filter-clear", true)
+                .text(this.t("Visual_TagFilter_Clear"))
+                .on("click", () => this.persistSetting("tags", { includeTags: "", excludeTags: "" }));
+        }
+    }
+
+    /**
+     * Include, exclude or stop filtering on a tag, saving the filter with
+     * the report.
+     */
+    private setTagFilterState(tag: string, state: "include" | "exclude" | "off"): void {
+        const key = TagService.key(tag);
+        const include = this.settings.includeTags.filter(t => TagService.key(t) !== key);
+        const exclude = this.settings.excludeTags.filter(t => TagService.key(t) !== key);
+        if (state === "include") include.push(tag);
+        if (state === "exclude") exclude.push(tag);
+        this.persistSetting("tags", {
+            includeTags: include.join(`${TAG_SEPARATOR} `),
+            excludeTags: exclude.join(`${TAG_SEPARATOR} `)
+        });
+    }
+
+    /**
+     * Wrap the parts of a row's text that match the search in <mark>s.
+     */
+    private appendSearchHighlight(el: d3.Selection<HTMLSpanElement, unknown, null, undefined>, text: string, isMatch: boolean): void {
+        const ranges = isMatch ? SearchService.findRanges(text, this.searchTerm) : [];
+        const node = el.node()!;
+        let position = 0;
+        ranges.forEach(range => {
+            node.append(text.slice(position, range.start));
+            el.append("mark").classed("search-hit", true).text(text.slice(range.start, range.end));
+            position = range.end;
+        });
+        node.append(text.slice(position));
+    }
+
+    private setSearchQuery(query: string): void {
+        this.searchQuery = query;
+        this.searchIndex = -1;
+        this.updateSearchMatches();
+        this.revealSearchMatch();
+    }
+
+    private stepSearch(step: number): void {
+        const count = this.searchMatches.length;
+        if (count === 0) return;
+        this.searchIndex = (this.searchIndex + step + count) % count;
+        this.revealSearchMatch();
+    }
+
+    /**
+     * Find the items matching the search, in row order, keeping the current
+     * match where it still matches. Rows are walked fully expanded so the
+     * ancestors of every match are known.
+     */
+    private updateSearchMatches(): void {
+        const current = this.searchMatches[this.searchIndex];
+        this.searchTerm = SearchService.normalizeQuery(this.searchQuery);
+        this.searchVisibleIds = null;
+        this.searchAncestorKeys = new Set();
+        const matches = new Set<string>();
+        const visible = new Set<string>();
+
+        if (this.searchTerm) {
+            const path: RowData[] = [];
+            this.buildRows(new Set()).forEach(row => {
+                const level = row.level || 0;
+                path.length = level;
+                path[level] = row;
+                if (!row.data || !SearchService.matches(row.data, this.searchTerm)) return;
+                matches.add(row.data.id);
+                path.slice(0, level).forEach(ancestor => {
+                    this.searchAncestorKeys.add(ancestor.key);
+                    if (ancestor.data) visible.add(ancestor.data.id);
+                });
+            });
+        }
+
+        this.searchMatches = [...matches];
+        this.searchMatchIds = matches;
+        const index = current ? this.searchMatches.indexOf(current) : -1;
+        this.searchIndex = index !== -1 ? index : (this.searchMatches.length > 0 ? 0 : -1);
+        if (this.showMatchesOnly && this.searchTerm) {
+            matches.forEach(id => visible.add(id));
+            this.searchVisibleIds = visible;
+        }
+    }
+
+    /**
+     * Expand the rows above the current match (or, when showing matches
+     * only, above every match) and scroll it into view. The expansion is
+     * not saved with the report.
+     */
+    private revealSearchMatch(): void {
+        const itemId = this.searchMatches[this.searchIndex];
+        if (itemId) {
+            const keys = this.showMatchesOnly ? [...this.searchAncestorKeys] : this.getRowAncestorKeys(itemId);
+            keys.forEach(key => this.collapsed.delete(key));
+            this.pendingScrollItemId = itemId;
+        }
+        this.redraw();
+    }
+
+    /**
+     * Caret position in the search field if it has focus, so it can be
+     * restored after a re-render.
+     */
+    private getSearchCaret(): number | null {
+        const input = this.container.select<HTMLInputElement>(".search-input").node();
+        return input && input === document.activeElement ? input.selectionStart ?? input.value.length : null;
+    }
+
+    private restoreSearchFocus(caret: number | null): void {
+        const input = this.container.select<HTMLInputElement>(".search-input").node();
+        if (caret === null || !input) return;
+        input.focus();
+        input.setSelectionRange(caret, caret);
+    }
+
+    /**
+     * Re-render from the current data and state without a host update
+     * (search, and expanding rows to reveal an item).
+     */
+    private redraw(): void {
+        if (this.workItems.length === 0 || !this.coordinateEngine) return;
+        const hadFocus = this.isGridFocused();
+        const searchCaret = this.getSearchCaret();
+        this.container.selectAll("*").remove();
+        this.rowPositions.clear();
+        this.render(this.viewportWidth, this.viewportHeight, this.viewEnd);
+        if (hadFocus) this.focusGridCell(true);
+        this.restoreSearchFocus(searchCaret);
+    }
+
+    /**
+     * Scroll an item's row into view, expanding its collapsed ancestors
+     * (and group) first.
+     */
+    private scrollToItem(itemId: string): void {
+        if (!this.workItems.some(w => w.id === itemId)) return;
+
+        const expanded = this.getRowAncestorKeys(itemId).filter(key => this.collapsed.delete(key));
+
+        this.pendingScrollItemId = itemId;
+        if (expanded.length > 0) {
+            this.redraw();
+        } else {
+            this.revealPendingItem();
+        }
+    }
+
+    private revealPendingItem(): void {
+        const itemId = this.pendingScrollItemId;
+        this.pendingScrollItemId = null;
+        const row = this.allRows.find(r => r.data?.id === itemId);
+        const bodyNode = this.timelineBody?.node();
+        if (!row || !row.data || !bodyNode || !this.coordinateEngine) return;
+
+        bodyNode.scrollTop = Math.max(0, row.y - (bodyNode.clientHeight - row.height) / 2);
+        const span = this.getItemXSpan(row.data, this.coordinateEngine.dayWidth);
+        if (span) bodyNode.scrollLeft = Math.max(0, span.startX - bodyNode.clientWidth / 3);
+
+        // Render the destination now rather than waiting for the scroll event
+        this.currentScrollTop = bodyNode.scrollTop;
+        this.currentScrollLeft = bodyNode.scrollLeft;
+        if (this.isTimeWindowStale()) this.renderTimeWindow();
+        this.renderVisibleRows();
+
+        const rendered = this.renderedRowElements.get(row.key);
+        if (rendered) {
+            d3.select(rendered.left).classed("row-flash", true);
+            this.focusCell = { rowKey: row.key, column: rendered.timeline.querySelector(".bar, .milestone") ? "item" : "label" };
+            this.focusGridCell(false);
+        }
+    }
+
+    /**
+     * Keyboard navigation for the row/item grid. Focus roves between cells
+     * (one tab stop), so the roadmap is a single stop in the tab order.
+     */
+    private handleGridKeydown(event: KeyboardEvent): void {
+        const target = event.target as HTMLElement;
+        const cell = this.getCellFromElement(target);
+        const index = cell ? this.allRows.findIndex(r => r.key === cell.rowKey) : -1;
+        if (!cell || index === -1) return;
+        const row = this.allRows[index];
+
+        // In right-to-left layouts the labels are on the right of the timeline
+        const towardsItem = this.isRtl ? "ArrowLeft" : "ArrowRight";
+        const key = event.key === "ArrowLeft" || event.key === "ArrowRight"
+            ? (event.key === towardsItem ? "ArrowRight" : "ArrowLeft")
+            : event.key;
+
+        switch (key) {
+        case "ArrowDown":
+            this.moveFocus(index + 1, cell.column);
+            break;
+        case "ArrowUp":
+            this.moveFocus(index - 1, cell.column);
+            break;
+        case "ArrowRight":
+            if (cell.column === "label" && row.isParent && row.collapsed) this.toggleCollapse(row.key);
+            else this.moveFocus(index, "item");
+            break;
+        case "ArrowLeft":
+            if (cell.column === "item") this.moveFocus(index, "label");
+            else if (row.isParent && !row.collapsed) this.toggleCollapse(row.key);
+            break;
+        case "Enter":
+        case " ":
+            if (cell.column === "label" && row.isParent) this.toggleCollapse(row.key);
+            else this.selectRow(row, event);
+            break;
+        case "F10":
+            if (!event.shiftKey) return;
+            this.showRowContextMenu(row, target);
+            break;
+        case "ContextMenu":
+            this.showRowContextMenu(row, target);
+            break;
+        case "+":
+        case "=":
+            this.stepZoom(1);
+            break;
+        case "-":
+        case "_":
+            this.stepZoom(-1);
+            break;
+        case "Home":
+            if (event.ctrlKey || event.metaKey) this.moveFocus(0, cell.column);
+            else this.scrollToToday();
+            break;
+        case "End":
+            if (!event.ctrlKey && !event.metaKey) return;
+            this.moveFocus(this.allRows.length - 1, cell.column);
+            break;
+        default:
+            return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    private getCellFromElement(element: Element | null): { rowKey: string; column: GridColumn } | null {
+        const item = element?.closest(".bar, .milestone");
+        const rowKey = item
+            ? item.closest(".tl-row")?.getAttribute("data-row-key")
+            : element?.closest(".row")?.getAttribute("data-row-key");
+        return rowKey ? { rowKey, column: item ? "item" : "label" } : null;
+    }
+
+    private getCellElement(rowKey: string, column: GridColumn): HTMLElement | null {
+        const elements = this.renderedRowElements.get(rowKey);
+        if (!elements) return null;
+        return column === "item" ? elements.timeline.querySelector<HTMLElement>(".bar, .milestone") : elements.left;
+    }
+
+    /**
+     * Move focus to a row, on its item when it has one on the timeline and
+     * the item column is wanted.
+     */
+    private moveFocus(index: number, column: GridColumn): void {
+        const row = this.allRows[Math.max(0, Math.min(index, this.allRows.length - 1))];
+        if (!row || !this.coordinateEngine) return;
+        const hasItem = !!row.data && this.getItemXSpan(row.data, this.coordinateEngine.dayWidth) !== null;
+        this.focusCell = { rowKey: row.key, column: column === "item" && hasItem ? "item" : "label" };
+        this.focusGridCell(true);
+    }
+
+    /**
+     * Focus the current grid cell, optionally scrolling it into view first
+     * (rendering the rows and time window it lands in).
+     */
+    private focusGridCell(scrollIntoView: boolean): void {
+        const cell = this.focusCell;
+        if (!cell) return;
+        const row = this.allRows.find(r => r.key === cell.rowKey);
+        if (!row) {
+            this.focusCell = null;
+            return;
+        }
+
+        const bodyNode = this.timelineBody?.node();
+        if (scrollIntoView && bodyNode && this.coordinateEngine && !this.settings.pdfMode) {
+            if (row.y < bodyNode.scrollTop) {
+                bodyNode.scrollTop = row.y;
+            } else if (row.y + row.height > bodyNode.scrollTop + bodyNode.clientHeight) {
+                bodyNode.scrollTop = row.y + row.height - bodyNode.clientHeight;
+            }
+            const span = cell.column === "item" && row.data ? this.getItemXSpan(row.data, this.coordinateEngine.dayWidth) : null;
+            if (span && (span.endX < bodyNode.scrollLeft || span.startX > bodyNode.scrollLeft + bodyNode.clientWidth)) {
+                bodyNode.scrollLeft = Math.max(0, span.startX - bodyNode.clientWidth / 3);
+            }
+            this.currentScrollTop = bodyNode.scrollTop;
+            this.currentScrollLeft = bodyNode.scrollLeft;
+            if (this.isTimeWindowStale()) this.renderTimeWindow();
+            this.renderVisibleRows();
+        }
+
+        this.updateTabStop();
+        const element = this.getCellElement(cell.rowKey, cell.column) || this.getCellElement(cell.rowKey, "label");
+        element?.focus({ preventScroll: true });
+    }
+
+    /**
+     * Give the focus cell (or, if it isn't rendered, the top rendered row)
+     * the grid's only tabindex="0".
+     */
+    private updateTabStop(): void {
+        let fallback: { row: RowData; left: HTMLDivElement } | null = null;
+        for (const elements of this.renderedRowElements.values()) {
+            elements.left.tabIndex = -1;
+            elements.timeline.querySelectorAll<HTMLElement>(".bar, .milestone").forEach(el => { el.tabIndex = -1; });
+            if (!fallback || elements.row.y < fallback.row.y) fallback = elements;
+        }
+
+        const target = (this.focusCell && this.getCellElement(this.focusCell.rowKey, this.focusCell.column)) || fallback?.left;
+        if (target) target.tabIndex = 0;
+    }
+
+    private isGridFocused(): boolean {
+        const active = document.activeElement;
+        if (!active) return false;
+        return !!this.leftInner?.node()?.contains(active) || !!this.timelineInner?.node()?.contains(active);
+    }
+
+    private showRowContextMenu(row: RowData, element: HTMLElement): void {
+        if (!row.data?.selectionId) return;
+        const rect = element.getBoundingClientRect();
+        this.selectionManager.showContextMenu(row.data.selectionId, { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+    }
+
+    private scrollToToday(): void {
+        const bodyNode = this.timelineBody?.node();
+        if (!bodyNode || !this.coordinateEngine) return;
+        bodyNode.scrollLeft = Math.max(0, this.coordinateEngine.dateToX(DateService.today()) - bodyNode.clientWidth / 3);
+        this.currentScrollLeft = bodyNode.scrollLeft;
+        if (this.isTimeWindowStale()) this.renderTimeWindow();
     }
 
     private setTimeScale(scale: TimeScale): void {
         if (this.settings.timeScale === scale) return;
 
+        // Keep the date at the centre of the viewport in view
+        this.setZoomAnchor();
+
         // Update setting locally
         this.settings.timeScale = scale;
 
         // Persist the setting to Power BI
+        this.persistSetting("display", { viewScale: scale });
+    }
+
+    private stepZoom(direction: 1 | -1, anchorOffsetX?: number): void {
+        const next = CoordinateEngine.stepZoom(this.settings.timeScale, this.settings.zoomLevel as ZoomLevel, direction);
+        if (!next) return;
+
+        this.setZoomAnchor(anchorOffsetX);
+
+        this.settings.timeScale = next.timeScale;
+        this.settings.zoomLevel = next.zoomLevel;
+        this.persistSetting("display", {
+            viewScale: next.timeScale,
+            zoomLevel: String(next.zoomLevel)
+        });
+    }
+
+    /**
+     * Remember which date sits at the given offset from the left edge of the
+     * timeline viewport (default: its centre) so render() can scroll it back
+     * to the same place once the new scale/zoom arrives.
+     */
+    private setZoomAnchor(offsetX?: number): void {
+        const bodyNode = this.timelineBody?.node();
+        if (!this.coordinateEngine || !bodyNode) return;
+
+        const anchorOffset = offsetX ?? bodyNode.clientWidth / 2;
+        const anchorX = bodyNode.scrollLeft + anchorOffset;
+        const date = this.coordinateEngine.xToDate(anchorX);
+        this.pendingZoomAnchor = {
+            date,
+            dayFraction: (anchorX - this.coordinateEngine.dateToX(date)) / this.coordinateEngine.dayWidth,
+            offsetX: anchorOffset
+        };
+    }
+
+    /**
+     * Write format pane properties back to Power BI. The host responds with
+     * a fresh update() so the change is rendered through the normal path.
+     */
+    private persistSetting(objectName: string, properties: { [propertyName: string]: DataViewPropertyValue }): void {
         this.host.persistProperties({
             merge: [{
-                objectName: "display",
+                objectName,
                 selector: null,
-                properties: {
-                    viewScale: scale
-                }
+                properties
             }]
         });
     }
 
+    /**
+     * Save a per-type setting in the JSON keyed by type name.
+     */
+    private persistTypeSetting(type: string, overrides: TypeOverrides): void {
+        const next = new Map(this.typeOverrides);
+        next.set(type, { ...next.get(type), ...overrides });
+        this.persistSetting("workItemTypes", { settings: TypeRegistry.formatOverrides(next) });
+    }
+
     private getColor(type: string): string {
-        switch (type) {
-            case "Epic": return this.settings.epicColor;
-            case "Release": return this.settings.releaseColor;
-            case "Milestone": return this.settings.milestoneColor;
-            default: return this.settings.featureColor;
-        }
+        return this.typeRegistry.getColor(type);
     }
 
     private sanitizeString(str: string): string {
@@ -1417,6 +4144,9 @@ export class RoadmapVisual implements IVisual {
 
         // Remove all event listeners from container and children
         this.container.on("contextmenu", null);
+        this.container.on("click.toolbarPanel", null);
+        this.container.on("click.clearSelection", null);
+        this.timelineBody?.on("wheel.zoom", null);
 
         // Remove all child elements first
         this.container.selectAll("*").remove();
@@ -1427,9 +4157,28 @@ export class RoadmapVisual implements IVisual {
         // Clear all data references for garbage collection
         this.workItems = [];
         this.collapsed.clear();
+        this.collapsedSource = null;
+        this.searchMatches = [];
+        this.searchMatchIds.clear();
+        this.searchAncestorKeys.clear();
+        this.searchVisibleIds = null;
         this.rowPositions.clear();
         this.allRows = [];
         this.renderedRowIds.clear();
+        this.renderedRowElements.clear();
+        this.leftInner = null;
+        this.timelineInner = null;
+        if (this.scrollFrame) cancelAnimationFrame(this.scrollFrame);
         this.coordinateEngine = null;
+        this.toolbar = null;
+        this.timelineBody = null;
+        this.timelineHeader = null;
+        this.gridLayer = null;
+        this.renderedWindow = null;
+        this.typeOverrides.clear();
+        this.pendingScrollItemId = null;
+        this.selectedIds = [];
+        this.selectionAnchorKey = null;
+        this.focusCell = null;
     }
 }